@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EmbeddingCache } from '../../../lib/embeddings/embedding-cache';
+
+// Report what the on-disk embedding cache holds, per provider/model/pooling namespace
+export async function GET() {
+  try {
+    const cache = new EmbeddingCache();
+
+    return NextResponse.json({
+      success: true,
+      cache: await cache.inspect()
+    });
+  } catch (error) {
+    console.error('Embedding cache inspection error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to inspect embedding cache',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Clear the whole cache, or one namespace with ?namespace=<name from GET>
+export async function DELETE(request: NextRequest) {
+  const namespace = request.nextUrl.searchParams.get('namespace') || undefined;
+
+  try {
+    const cache = new EmbeddingCache();
+    const removed = await cache.clear(namespace);
+
+    return NextResponse.json({
+      success: true,
+      removed,
+      message: namespace ? `Cleared ${removed} entries from ${namespace}` : `Cleared ${removed} entries`
+    });
+  } catch (error) {
+    console.error('Embedding cache clear error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to clear embedding cache',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: namespace ? 400 : 500 }
+    );
+  }
+}
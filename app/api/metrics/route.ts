@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { metricRegistry } from '../../../lib/metrics/metric-registry';
+
+// List every registered metric so the UI can offer whatever is available
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    metrics: metricRegistry.list()
+  });
+}
@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseClient } from '../../../../lib/supabase';
 import { DatabaseConnection } from '../../../../lib/database/connection';
 import { RAGTestingFramework } from '../../../../lib/core/testing-framework';
+import { generateSeed } from '../../../../lib/core/data-split';
+import { metricRegistry } from '../../../../lib/metrics/metric-registry';
 
 export async function POST(request: NextRequest) {
   try {
     const { 
       dbConfig, 
-      testConfig 
+      testConfig,
+      validated
     } = await request.json();
 
     if (!dbConfig || !testConfig) {
@@ -37,8 +40,12 @@ export async function POST(request: NextRequest) {
     // Initialize the framework
     await framework.initialize();
 
-    // Validate configuration first
-    const validation = await framework.validateConfiguration(testConfig);
+    // Fix the seed up front so leakage checks look at the split that actually runs
+    const config = { ...testConfig, seed: testConfig.seed ?? generateSeed() };
+
+    // Validate configuration first; the leakage scan reloads the table, so skip it when the
+    // client already ran it through /api/test/validate
+    const validation = await framework.validateConfiguration(config, { checkLeakage: !validated });
     if (!validation.isValid) {
       return NextResponse.json(
         { 
@@ -50,7 +57,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Run the experiment
-    const results = await framework.runFullExperiment(testConfig);
+    const results = await framework.runFullExperiment(config);
 
     return NextResponse.json({ 
       success: true, 
@@ -73,6 +80,8 @@ export async function POST(request: NextRequest) {
 
 // Add GET method to return status or help
 export async function GET() {
+  const metricIds = metricRegistry.ids().join(' | ');
+
   return NextResponse.json({
     message: 'Use POST to run RAG tests',
     requiredFields: {
@@ -80,22 +89,121 @@ export async function GET() {
         url: 'string',
         anonKey: 'string'
       },
+      validated: 'boolean (optional, skip the leakage check when /api/test/validate already ran it, default false)',
       testConfig: {
         tableId: 'string',
-        tableName: 'string',
+        tableName: 'string (the corpus table in corpus-queries mode)',
+        filters: [{
+          column: 'string',
+          operator: 'eq | neq | gt | gte | lt | lte | like | ilike | in | is_null | not_null',
+          value: 'any (omitted for is_null / not_null; array or comma-separated list for in)'
+        }],
+        dataSource: 'self-split | corpus-queries (optional, default self-split)',
+        querySet: {
+          source: 'table | jsonl (corpus-queries only)',
+          tableName: 'string (source table)',
+          jsonl: 'string (source jsonl, one JSON object per line)',
+          queryField: 'string',
+          relevantIdsField: 'string (relevant corpus ids: single id, array or comma-separated)',
+          answerField: 'string (optional, defaults to the first relevant row\'s y value)'
+        },
         selectedColumns: 'string[]',
+        searchStrategy: 'exhaustive | greedy-forward | backward-elimination | beam (optional, default exhaustive)',
+        searchBudget: 'number (optional, max combinations evaluated)',
+        beamWidth: 'number (optional, beam search only, default 3)',
         yColumn: 'string',
-        queryColumn: 'string',
-        answerColumn: 'string',
+        queryColumn: 'string (self-split only)',
+        answerColumn: 'string (self-split only)',
         embeddingConfig: {
-          model: 'openai | local',
+          model: 'openai | local | openai-compatible',
           openaiModel: 'string (optional)',
-          localModel: 'string (optional)'
+          localModel: 'string (optional)',
+          pooling: 'mean | cls (optional, local only, default mean)',
+          normalize: 'boolean (optional, local only, L2-normalize vectors, default true)',
+          queryPrefix: 'string (optional, prepended to queries, e.g. "query: " for E5)',
+          passagePrefix: 'string (optional, prepended to documents, e.g. "passage: " for E5)',
+          baseUrl: 'string (openai-compatible only, e.g. http://localhost:11434/v1; requests go to {baseUrl}/embeddings)',
+          compatibleModel: 'string (openai-compatible only, model name sent to the endpoint)',
+          apiKey: 'string (optional, openai-compatible only)',
+          batchSize: 'number (optional, texts per embedding request, default 100 openai / 32 otherwise)',
+          concurrency: 'number (optional, batches in flight at once, default 4 openai / 2 openai-compatible / 1 local)',
+          cache: 'boolean (optional, reuse embeddings cached on disk, default true; see /api/embedding-cache)',
+          retry: {
+            maxRetries: 'number (optional, retries on 429 / 5xx / network errors, default 5)',
+            initialDelayMs: 'number (optional, first backoff ceiling, doubled per attempt, default 500)',
+            maxDelayMs: 'number (optional, backoff cap, default 30000)'
+          },
+          rateLimit: {
+            requestsPerMinute: 'number (optional, default unlimited)',
+            tokensPerMinute: 'number (optional, estimated at ~4 characters per token, default unlimited)'
+          }
+        },
+        contextTemplate: {
+          template: 'string (optional, e.g. "{title}\\n\\n{body}")',
+          includeLabels: 'boolean (optional, default true)',
+          separator: 'string (optional, default " | ")',
+          fieldOrder: 'string[] (optional)',
+          maxFieldLength: 'number (optional, characters per field)',
+          jsonFormat: 'compact | pretty | flatten (optional, default compact)'
+        },
+        retrievalMode: 'concatenated | field-level (optional, default concatenated)',
+        fusion: {
+          method: 'weighted-sum | max | rrf (field-level only)',
+          weights: 'Record<column, number> (optional, default 1 per column)',
+          rrfK: 'number (optional, default 60)'
+        },
+        retriever: 'vector | lexical | hybrid (optional, default vector)',
+        hybrid: {
+          method: 'alpha | rrf (hybrid only)',
+          alpha: 'number 0-1 (optional, weight of the vector score, default 0.5)',
+          rrfK: 'number (optional, default 60)'
         },
-        metricType: 'sql | brdr',
+        chunking: {
+          strategy: 'fixed | sentence | paragraph (optional, enables chunking)',
+          chunkSize: 'number (max whitespace-separated words per chunk, not model tokens; MiniLM truncates at 256 wordpieces)',
+          overlap: 'number (optional, words shared with the previous chunk, default 0)'
+        },
+        chunkSizes: 'number[] (optional, sweep: every combination runs once per chunk size)',
+        reranker: {
+          model: 'string (optional, local cross-encoder with a 1- or 2-label relevance head, default Xenova/ms-marco-MiniLM-L-6-v2)',
+          candidates: 'number (optional, first-stage candidates to rerank, default 20)'
+        },
+        generation: {
+          provider: 'ai-sdk | openai-compatible | mock (optional, enables answer synthesis)',
+          model: 'string (optional for ai-sdk, default gpt-4o-mini; required for openai-compatible)',
+          baseUrl: 'string (openai-compatible only, e.g. http://localhost:11434/v1)',
+          apiKey: 'string (optional, openai-compatible only)',
+          promptTemplate: 'string (optional, {context} and {query} placeholders)',
+          systemPrompt: 'string (optional)',
+          contexts: 'number (optional, retrieved contexts in the prompt, default topK)',
+          includeAnswers: 'boolean (optional, add retrieved y values to the prompt)',
+          temperature: 'number (optional, default 0)',
+          maxTokens: 'number (optional)'
+        },
+        metricType: `${metricIds} (primary metric)`,
+        metricTypes: `(${metricIds})[] (optional, additional metrics scored on the same retrievals)`,
+        metricConfigs: 'Record<metricId, config> (optional, see availableMetrics[].configSchema)',
+        topK: 'number (optional, default 5)',
+        relevanceMode: 'answer-equivalence (optional, default; corpus-queries uses the query set\'s relevance mapping)',
+        idColumn: 'string (required for corpus-queries, optional row id in self-split)',
         trainingRatio: 'number (0-1)',
+        splitStrategy: 'random | time | stratified (optional, default random)',
+        timeSplit: {
+          column: 'string (time split only, date or timestamp column)',
+          cutoff: 'string (optional, ISO date; rows on or after it are the test set, default most recent 1 - trainingRatio)'
+        },
+        stratifyColumn: 'string (stratified split only, each value is split by trainingRatio)',
+        sampleSize: 'number (optional, seeded random sample of the table; default loads every row)',
+        seed: 'number (optional, random if omitted)',
+        nearDuplicateThreshold: 'number (optional, 0-1, shingle overlap flagged as leakage, default 0.9)',
+        evaluationMode: 'holdout | cross-validation (optional, default holdout)',
+        crossValidation: {
+          folds: 'number (>= 2, required for cross-validation)',
+          repeats: 'number (optional, default 1)'
+        },
         testName: 'string'
       }
-    }
+    },
+    availableMetrics: metricRegistry.list()
   });
 }
@@ -23,17 +23,113 @@ interface TableInfo {
 interface TestConfig {
   tableId: string
   tableName: string
+  filters?: Array<{
+    column: string
+    operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike' | 'in' | 'is_null' | 'not_null'
+    value?: any
+  }>
+  dataSource?: 'self-split' | 'corpus-queries'
+  querySet?: {
+    source: 'table' | 'jsonl'
+    tableName?: string
+    jsonl?: string
+    queryField: string
+    relevantIdsField: string
+    answerField?: string
+  }
   selectedColumns: string[]
+  searchStrategy?: 'exhaustive' | 'greedy-forward' | 'backward-elimination' | 'beam'
+  searchBudget?: number
+  beamWidth?: number
   yColumn: string
   queryColumn: string
   answerColumn: string
   embeddingConfig: {
-    model: 'openai' | 'local'
+    model: 'openai' | 'local' | 'openai-compatible'
     openaiModel?: string
     localModel?: string
+    pooling?: 'mean' | 'cls'
+    normalize?: boolean
+    queryPrefix?: string
+    passagePrefix?: string
+    baseUrl?: string
+    compatibleModel?: string
+    apiKey?: string
+    batchSize?: number
+    concurrency?: number
+    cache?: boolean
+    retry?: {
+      maxRetries?: number
+      initialDelayMs?: number
+      maxDelayMs?: number
+    }
+    rateLimit?: {
+      requestsPerMinute?: number
+      tokensPerMinute?: number
+    }
+  }
+  contextTemplate?: {
+    template?: string
+    includeLabels?: boolean
+    separator?: string
+    fieldOrder?: string[]
+    maxFieldLength?: number
+    jsonFormat?: 'compact' | 'pretty' | 'flatten'
+  }
+  chunking?: {
+    strategy: 'fixed' | 'sentence' | 'paragraph'
+    chunkSize: number
+    overlap?: number
+  }
+  chunkSizes?: number[]
+  retrievalMode?: 'concatenated' | 'field-level'
+  fusion?: {
+    method: 'weighted-sum' | 'max' | 'rrf'
+    weights?: Record<string, number>
+    rrfK?: number
   }
-  metricType: 'sql' | 'brdr'
+  retriever?: 'vector' | 'lexical' | 'hybrid'
+  hybrid?: {
+    method: 'alpha' | 'rrf'
+    alpha?: number
+    rrfK?: number
+  }
+  reranker?: {
+    model?: string
+    candidates?: number
+  }
+  generation?: {
+    provider: 'ai-sdk' | 'openai-compatible' | 'mock'
+    model?: string
+    baseUrl?: string
+    apiKey?: string
+    promptTemplate?: string
+    systemPrompt?: string
+    contexts?: number
+    includeAnswers?: boolean
+    temperature?: number
+    maxTokens?: number
+  }
+  metricType: string
+  metricTypes?: string[]
+  metricConfigs?: Record<string, Record<string, any>>
+  topK?: number
+  relevanceMode?: 'answer-equivalence'
+  idColumn?: string
   trainingRatio: number
+  splitStrategy?: 'random' | 'time' | 'stratified'
+  timeSplit?: {
+    column: string
+    cutoff?: string
+  }
+  stratifyColumn?: string
+  sampleSize?: number
+  seed?: number
+  evaluationMode?: 'holdout' | 'cross-validation'
+  crossValidation?: {
+    folds: number
+    repeats?: number
+  }
   testName: string
 }
 
@@ -47,6 +143,15 @@ export default function Home() {
   const [results, setResults] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [validation, setValidation] = useState<{
+    warnings: string[]
+    leakage?: {
+      checkedRows: number
+      exactDuplicates: number
+      nearDuplicates: number
+      threshold: number
+    }
+  } | null>(null)
   const [progress, setProgress] = useState<{
     current: number
     total: number
@@ -88,11 +193,14 @@ export default function Home() {
     setState('configure')
   }
 
-  const handleConfigurationComplete = async (config: TestConfig) => {
+  const handleConfigurationComplete = async (selectedConfig: TestConfig) => {
+    // Fix the seed so validation checks the same split for leakage that the run uses
+    const config = { ...selectedConfig, seed: selectedConfig.seed ?? Math.floor(Math.random() * 4294967296) }
     setTestConfig(config)
     setState('running')
     setIsLoading(true)
     setError(null)
+    setValidation(null)
     setProgress({ current: 0, total: 100, currentStep: 'Initializing test...' })
 
     try {
@@ -116,6 +224,12 @@ export default function Home() {
         throw new Error(validateData.error || 'Configuration validation failed')
       }
 
+      // Keep warnings and the leakage report visible while the test runs and next to the results
+      setValidation({
+        warnings: validateData.validation.warnings,
+        leakage: validateData.validation.leakage
+      })
+
       if (!validateData.validation.isValid) {
         const errors = validateData.validation.errors.join('\n')
         throw new Error(`Configuration errors:\n${errors}`)
@@ -131,14 +245,16 @@ export default function Home() {
         },
         body: JSON.stringify({
           dbConfig,
-          testConfig: config
+          testConfig: config,
+          validated: true
         }),
       })
 
       const testData = await testResponse.json()
 
       if (!testResponse.ok) {
-        throw new Error(testData.error || testData.details || 'Test execution failed')
+        const details = testData.validation?.errors?.join('\n') || testData.details
+        throw new Error(details ? `${testData.error}:\n${details}` : testData.error || 'Test execution failed')
       }
 
       setResults(testData.results)
@@ -162,6 +278,7 @@ export default function Home() {
     setTestConfig(null)
     setResults(null)
     setError(null)
+    setValidation(null)
     setProgress(null)
   }
 
@@ -170,6 +287,7 @@ export default function Home() {
     setSelectedTable(null)
     setSampleData([])
     setError(null)
+    setValidation(null)
   }
 
   return (
@@ -239,6 +357,29 @@ export default function Home() {
           </Card>
         )}
 
+        {/* Validation Warnings */}
+        {validation && (validation.warnings.length > 0 || validation.leakage) && state !== 'connect' && (
+          <Card className="mb-6 border-yellow-200 bg-yellow-50">
+            <CardContent className="pt-6">
+              <div className="flex items-start space-x-3">
+                <div className="text-yellow-600">⚠️</div>
+                <div className="space-y-1">
+                  <h4 className="text-yellow-900 font-medium">Configuration Warnings</h4>
+                  {validation.leakage && (
+                    <p className="text-yellow-800 text-sm">
+                      Leakage check: {validation.leakage.exactDuplicates} exact and {validation.leakage.nearDuplicates} near-duplicates 
+                      (≥ {Math.round(validation.leakage.threshold * 100)}% overlap) among {validation.leakage.checkedRows} checked rows
+                    </p>
+                  )}
+                  {validation.warnings.map((warning, index) => (
+                    <p key={index} className="text-yellow-800 text-sm">• {warning}</p>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Connection State */}
         {state === 'connect' && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] space-y-8">
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from 'react'
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 
@@ -9,20 +10,131 @@ interface ExperimentResults {
   testName: string
   timestamp: Date
   configuration: any
+  dataset?: {
+    tableName: string
+    totalRows: number
+    loadedRows: number
+    sampled: boolean
+    orderBy: string[]
+  }
   allResults: Array<{
     id: string
     combination: {
       columns: string[]
       name: string
     }
+    chunkSize?: number
     averageScore: number
+    metricScores: Record<string, number>
     totalTests: number
     processingTime: number
     embeddingStats: {
       trainingEmbeddings: number
       testQueries: number
       averageSimilarity: number
+      cacheHits?: number
+      cacheMisses?: number
+      failedRows?: number
+      failedQueries?: number
+    }
+    queries: Array<{
+      testIndex: number
+      rowId?: string
+      query: string
+      expectedAnswer: any
+      actualAnswer: any
+      retrievedRowId: string
+      retrievedContext: string
+      firstRelevantRank: number | null
+      similarity: number
+      score: number
+      generation?: {
+        generator: string
+        prompt: string
+        completion: string
+        retrievedAnswer: any
+      }
+      fold?: number
+      repeat?: number
+    }>
+    retrievalMetrics: {
+      k: number
+      relevanceMode: string
+      hitAtK: number
+      recallAtK: number
+      mrr: number
+      ndcgAtK: number
+      evaluatedQueries: number
+      queriesWithoutRelevant: number
+    }
+    firstStageRetrievalMetrics?: {
+      hitAtK: number
+      recallAtK: number
+      mrr: number
+      ndcgAtK: number
     }
+    timings: {
+      retrievalTime: number
+      rerankTime: number
+      generationTime: number
+      averageRetrievalTime: number
+      averageRerankTime: number
+      averageGenerationTime: number
+      rerankModel?: string
+      generator?: string
+    }
+    crossValidation?: {
+      foldScores: Array<{
+        fold: number
+        repeat: number
+        averageScore: number
+        totalTests: number
+      }>
+      mean: number
+      stdDev: number
+    }
+  }>
+  search: {
+    strategy: string
+    budget?: number
+    evaluatedCombinations: number
+    budgetExhausted: boolean
+    droppedColumns: string[]
+    steps: Array<{
+      step: number
+      combination: {
+        columns: string[]
+        name: string
+      }
+      score: number
+    }>
+  }
+  columnImportance: {
+    columns: Array<{
+      column: string
+      shapleyValue: number
+      averageMarginalGain: number
+      comparisons: number
+    }>
+    complete: boolean
+    coverage: number
+  }
+  splits: Array<{
+    seed: number
+    fold?: number
+    repeat?: number
+    totalRows: number
+    trainingSize: number
+    testingSize: number
+    testingIndices: number[]
+    testStart?: string
+    undatedRows?: number
+    strata?: Array<{
+      value: string
+      total: number
+      training: number
+      testing: number
+    }>
   }>
   summary: {
     bestCombination: {
@@ -37,6 +149,28 @@ interface ExperimentResults {
     worstScore: number
     averageScore: number
     totalCombinations: number
+    metricRankings: Record<string, Array<{
+      rank: number
+      combination: {
+        columns: string[]
+        name: string
+      }
+      chunkSize?: number
+      score: number
+    }>>
+    chunkSweep?: Array<{
+      chunkSize: number
+      bestScore: number
+      averageScore: number
+      combinations: number
+    }>
+    crossValidation?: {
+      folds: number
+      repeats: number
+      bestScoreStdDev: number
+      worstScoreStdDev: number
+      averageStdDev: number
+    }
   }
   processingTime: number
 }
@@ -109,6 +243,11 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
               {(results.summary.bestScore * 100).toFixed(1)}%
+              {results.summary.crossValidation && (
+                <span className="text-sm font-normal text-gray-700">
+                  {' '}± {(results.summary.crossValidation.bestScoreStdDev * 100).toFixed(1)}
+                </span>
+              )}
             </div>
             <p className="text-xs text-gray-700 mt-1">
               {results.summary.bestCombination.name}
@@ -126,6 +265,9 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
             </div>
             <p className="text-xs text-gray-700 mt-1">
               Across all combinations
+              {results.summary.crossValidation && 
+                ` • mean fold std dev ${(results.summary.crossValidation.averageStdDev * 100).toFixed(1)}%`
+              }
             </p>
           </CardContent>
         </Card>
@@ -139,7 +281,8 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
               {results.summary.totalCombinations}
             </div>
             <p className="text-xs text-gray-700 mt-1">
-              Column combinations
+              Column combinations ({results.search.strategy}
+              {results.search.budgetExhausted && ', budget reached'})
             </p>
           </CardContent>
         </Card>
@@ -159,6 +302,158 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
         </Card>
       </div>
 
+      {/* Column Importance */}
+      {results.columnImportance.columns.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Column Importance</CardTitle>
+            <CardDescription className="text-gray-700">
+              Shapley value of each column across the evaluated combinations
+              {!results.columnImportance.complete && 
+                ` (approximate - ${(results.columnImportance.coverage * 100).toFixed(0)}% of subsets evaluated)`
+              }
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div style={{ height: Math.max(160, results.columnImportance.columns.length * 40) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={results.columnImportance.columns.map(c => ({ ...c, shapley: c.shapleyValue * 100 }))}
+                  layout="vertical"
+                  margin={{ left: 40, right: 20 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" unit="%" />
+                  <YAxis type="category" dataKey="column" width={120} />
+                  <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} />
+                  <Bar dataKey="shapley" name="Shapley value">
+                    {results.columnImportance.columns.map(c => (
+                      <Cell key={c.column} fill={c.shapleyValue >= 0 ? '#3b82f6' : '#ef4444'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Rank</th>
+                  <th className="text-left p-2">Column</th>
+                  <th className="text-left p-2">Shapley Value</th>
+                  <th className="text-left p-2">Avg Marginal Gain</th>
+                  <th className="text-left p-2">Comparisons</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.columnImportance.columns.map((c, index) => (
+                  <tr key={c.column} className="border-b">
+                    <td className="p-2">#{index + 1}</td>
+                    <td className="p-2 font-medium">{c.column}</td>
+                    <td className="p-2">{(c.shapleyValue * 100).toFixed(2)}%</td>
+                    <td className="p-2">{(c.averageMarginalGain * 100).toFixed(2)}%</td>
+                    <td className="p-2">{c.comparisons}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Column Search */}
+      {(results.search.droppedColumns.length > 0 || results.search.strategy !== 'exhaustive') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Column Search</CardTitle>
+            <CardDescription className="text-gray-700">
+              {results.search.strategy} • {results.search.evaluatedCombinations} combinations evaluated
+              {results.search.budget !== undefined && ` of a budget of ${results.search.budget}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {results.search.droppedColumns.length > 0 && (
+              <div className="text-yellow-800 bg-yellow-50 p-2 rounded">
+                Dropped columns (not evaluated): {results.search.droppedColumns.join(', ')}
+              </div>
+            )}
+            <ol className="space-y-1">
+              {results.search.steps.map(step => (
+                <li key={step.step} className="flex justify-between">
+                  <span>Step {step.step}: {step.combination.name}</span>
+                  <span className="font-medium">{(step.score * 100).toFixed(1)}%</span>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Chunk Size Sweep */}
+      {results.summary.chunkSweep && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Chunk Size Sweep</CardTitle>
+            <CardDescription className="text-gray-700">
+              Scores per chunk size across the evaluated combinations
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Chunk Size</th>
+                  <th className="text-left p-2">Best Score</th>
+                  <th className="text-left p-2">Average Score</th>
+                  <th className="text-left p-2">Combinations</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.summary.chunkSweep.map(entry => (
+                  <tr key={entry.chunkSize} className="border-b">
+                    <td className="p-2 font-medium">{entry.chunkSize} tokens</td>
+                    <td className="p-2">{(entry.bestScore * 100).toFixed(1)}%</td>
+                    <td className="p-2">{(entry.averageScore * 100).toFixed(1)}%</td>
+                    <td className="p-2">{entry.combinations}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per-Metric Rankings */}
+      {Object.keys(results.summary.metricRankings).length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Rankings by Metric</CardTitle>
+            <CardDescription className="text-gray-700">
+              Each metric scored the same retrievals; top combinations per metric
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              {Object.entries(results.summary.metricRankings).map(([metric, ranking]) => (
+                <div key={metric}>
+                  <h4 className="font-medium mb-2">{metric.toUpperCase()}</h4>
+                  <ol className="space-y-1">
+                    {ranking.slice(0, 5).map(entry => (
+                      <li key={`${entry.combination.name}-${entry.chunkSize ?? ''}`} className="flex justify-between">
+                        <span>
+                          #{entry.rank} {entry.combination.name}
+                          {entry.chunkSize !== undefined && ` @ ${entry.chunkSize}`}
+                        </span>
+                        <span className="font-medium">{(entry.score * 100).toFixed(1)}%</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Results Table */}
       <Card>
         <CardHeader>
@@ -192,6 +487,8 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
                   <th className="text-left p-2">Score</th>
                   <th className="text-left p-2">Tests</th>
                   <th className="text-left p-2">Avg Similarity</th>
+                  <th className="text-left p-2">MRR</th>
+                  <th className="text-left p-2">Recall@{results.allResults[0]?.retrievalMetrics.k}</th>
                   <th className="text-left p-2">Time</th>
                   <th className="text-left p-2">Actions</th>
                 </tr>
@@ -211,6 +508,7 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
                         <div className="font-medium">{result.combination.name}</div>
                         <div className="text-xs text-gray-500">
                           {result.combination.columns.join(', ')}
+                          {result.chunkSize !== undefined && ` • ${result.chunkSize}-token chunks`}
                         </div>
                       </div>
                     </td>
@@ -218,6 +516,9 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
                       <div className="flex items-center gap-2">
                         <span className="font-medium">
                           {(result.averageScore * 100).toFixed(1)}%
+                          {result.crossValidation && (
+                            <span className="text-xs text-gray-500"> ± {(result.crossValidation.stdDev * 100).toFixed(1)}</span>
+                          )}
                         </span>
                         <div className="w-16 h-2 bg-gray-200 rounded-full overflow-hidden">
                           <div 
@@ -231,6 +532,8 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
                     <td className="p-2">
                       {(result.embeddingStats.averageSimilarity * 100).toFixed(1)}%
                     </td>
+                    <td className="p-2">{result.retrievalMetrics.mrr.toFixed(3)}</td>
+                    <td className="p-2">{(result.retrievalMetrics.recallAtK * 100).toFixed(1)}%</td>
                     <td className="p-2">{formatTime(result.processingTime)}</td>
                     <td className="p-2">
                       <Button
@@ -274,6 +577,16 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
                         <div>Training Embeddings: {result.embeddingStats.trainingEmbeddings}</div>
                         <div>Test Queries: {result.embeddingStats.testQueries}</div>
                         <div>Average Similarity: {(result.embeddingStats.averageSimilarity * 100).toFixed(2)}%</div>
+                        {result.embeddingStats.cacheHits !== undefined && (
+                          <div>
+                            Cache: {result.embeddingStats.cacheHits} hits / {result.embeddingStats.cacheMisses} misses
+                          </div>
+                        )}
+                        {(result.embeddingStats.failedRows || result.embeddingStats.failedQueries) ? (
+                          <div className="text-red-700">
+                            Failed: {result.embeddingStats.failedRows ?? 0} training rows, {result.embeddingStats.failedQueries ?? 0} queries
+                          </div>
+                        ) : null}
                       </div>
                     </div>
 
@@ -281,6 +594,9 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
                       <h4 className="font-medium text-green-900">Performance Metrics</h4>
                       <div className="mt-2 space-y-1 text-sm">
                         <div>Overall Score: {(result.averageScore * 100).toFixed(2)}%</div>
+                        {Object.entries(result.metricScores).map(([metric, score]) => (
+                          <div key={metric}>{metric.toUpperCase()} Score: {(score * 100).toFixed(2)}%</div>
+                        ))}
                         <div>Total Tests: {result.totalTests}</div>
                         <div>Processing Time: {formatTime(result.processingTime)}</div>
                       </div>
@@ -297,6 +613,113 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
                     </div>
                   </div>
 
+                  <div className="bg-yellow-50 p-4 rounded">
+                    <h4 className="font-medium text-yellow-900">
+                      Retrieval Metrics (k = {result.retrievalMetrics.k}, {result.retrievalMetrics.relevanceMode})
+                    </h4>
+                    <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                      <div>Hit@{result.retrievalMetrics.k}: {(result.retrievalMetrics.hitAtK * 100).toFixed(1)}%</div>
+                      <div>Recall@{result.retrievalMetrics.k}: {(result.retrievalMetrics.recallAtK * 100).toFixed(1)}%</div>
+                      <div>MRR: {result.retrievalMetrics.mrr.toFixed(3)}</div>
+                      <div>nDCG@{result.retrievalMetrics.k}: {result.retrievalMetrics.ndcgAtK.toFixed(3)}</div>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-700">
+                      {result.retrievalMetrics.evaluatedQueries} queries scored
+                      {result.retrievalMetrics.queriesWithoutRelevant > 0 && 
+                        `, ${result.retrievalMetrics.queriesWithoutRelevant} had no relevant row in the corpus`
+                      }
+                    </div>
+                    {result.firstStageRetrievalMetrics && (
+                      <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-gray-700">
+                        <div>Hit@{result.retrievalMetrics.k} before rerank: {(result.firstStageRetrievalMetrics.hitAtK * 100).toFixed(1)}%</div>
+                        <div>Recall@{result.retrievalMetrics.k} before rerank: {(result.firstStageRetrievalMetrics.recallAtK * 100).toFixed(1)}%</div>
+                        <div>MRR before rerank: {result.firstStageRetrievalMetrics.mrr.toFixed(3)}</div>
+                        <div>nDCG@{result.retrievalMetrics.k} before rerank: {result.firstStageRetrievalMetrics.ndcgAtK.toFixed(3)}</div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="bg-gray-50 p-4 rounded">
+                    <h4 className="font-medium text-gray-900">Stage Timings</h4>
+                    <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                      <div>Retrieval: {formatTime(result.timings.retrievalTime)}</div>
+                      <div>Per Query: {result.timings.averageRetrievalTime.toFixed(1)}ms</div>
+                      {result.timings.rerankModel ? (
+                        <>
+                          <div>Reranking: {formatTime(result.timings.rerankTime)}</div>
+                          <div>Per Query: {result.timings.averageRerankTime.toFixed(1)}ms</div>
+                        </>
+                      ) : (
+                        <div className="text-gray-700">Reranking off</div>
+                      )}
+                      {result.timings.generator && (
+                        <>
+                          <div>Generation: {formatTime(result.timings.generationTime)}</div>
+                          <div>Per Query: {result.timings.averageGenerationTime.toFixed(1)}ms</div>
+                        </>
+                      )}
+                    </div>
+                    {result.timings.rerankModel && (
+                      <div className="mt-1 text-xs text-gray-700">Reranker: {result.timings.rerankModel}</div>
+                    )}
+                    {result.timings.generator && (
+                      <div className="mt-1 text-xs text-gray-700">Generator: {result.timings.generator}</div>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Per-Query Results (lowest score first)</h4>
+                    <div className="overflow-x-auto max-h-96 overflow-y-auto border rounded">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="border-b bg-gray-50">
+                            <th className="text-left p-2">Query</th>
+                            <th className="text-left p-2">Expected</th>
+                            <th className="text-left p-2">Retrieved Row</th>
+                            <th className="text-left p-2">
+                              {result.timings.generator ? 'Generated Answer' : 'Retrieved Answer'}
+                            </th>
+                            <th className="text-left p-2">Similarity</th>
+                            <th className="text-left p-2">Score</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {[...result.queries].sort((a, b) => a.score - b.score).map((record, index) => (
+                            <tr key={`${record.repeat ?? 0}-${record.fold ?? 0}-${record.testIndex}-${index}`} className="border-b align-top">
+                              <td className="p-2 max-w-xs break-words">{String(record.query)}</td>
+                              <td className="p-2 max-w-xs break-words">{String(record.expectedAnswer)}</td>
+                              <td className="p-2" title={record.retrievedContext}>
+                                {record.retrievedRowId} ({record.firstRelevantRank === null ? 'no relevant row in top K' : `first relevant at #${record.firstRelevantRank}`})
+                              </td>
+                              <td className="p-2 max-w-xs break-words" title={record.generation?.prompt}>
+                                {String(record.actualAnswer)}
+                              </td>
+                              <td className="p-2">{(record.similarity * 100).toFixed(1)}%</td>
+                              <td className="p-2 font-medium">{(record.score * 100).toFixed(1)}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+
+                  {result.crossValidation && (
+                    <div className="bg-gray-50 p-4 rounded">
+                      <h4 className="font-medium text-gray-900">Fold Scores</h4>
+                      <div className="mt-2 grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                        {result.crossValidation.foldScores.map(fold => (
+                          <div key={`${fold.repeat}-${fold.fold}`}>
+                            R{fold.repeat + 1} F{fold.fold + 1}: {(fold.averageScore * 100).toFixed(1)}%
+                            <span className="text-xs text-gray-500"> ({fold.totalTests} tests)</span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="mt-2 text-sm">
+                        Mean: {(result.crossValidation.mean * 100).toFixed(2)}% • Std Dev: {(result.crossValidation.stdDev * 100).toFixed(2)}%
+                      </div>
+                    </div>
+                  )}
+
                   <div className="flex justify-end">
                     <Button onClick={() => setShowDetails(null)} variant="outline">
                       Close Details
@@ -321,15 +744,139 @@ export function ResultsDashboard({ results, onNewTest }: ResultsDashboardProps)
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
             <div className="space-y-2">
               <div><strong>Table:</strong> {results.configuration.tableName}</div>
-              <div><strong>Metric Type:</strong> {results.configuration.metricType}</div>
-              <div><strong>Training Ratio:</strong> {(results.configuration.trainingRatio * 100).toFixed(0)}%</div>
+              {results.configuration.filters?.length > 0 && (
+                <div>
+                  <strong>Filters:</strong> {results.configuration.filters
+                    .map((filter: { column: string; operator: string; value?: any }) =>
+                      ['is_null', 'not_null'].includes(filter.operator)
+                        ? `${filter.column} ${filter.operator === 'is_null' ? 'is null' : 'is not null'}`
+                        : `${filter.column} ${filter.operator} ${filter.value}`
+                    )
+                    .join(' AND ')}
+                </div>
+              )}
+              {results.dataset && (
+                <div>
+                  <strong>Rows Used:</strong> {results.dataset.loadedRows} of {results.dataset.totalRows}
+                  {results.dataset.sampled && ' (random sample)'}
+                </div>
+              )}
+              <div><strong>Metric Type:</strong> {(results.configuration.metricTypes || [results.configuration.metricType]).join(', ')}</div>
+              {results.configuration.dataSource === 'corpus-queries' ? (
+                <div>
+                  <strong>Query Set:</strong> {results.configuration.querySet?.source === 'jsonl' 
+                    ? 'uploaded JSONL' 
+                    : results.configuration.querySet?.tableName
+                  } ({results.splits[0]?.testingSize ?? 0} queries over {results.splits[0]?.trainingSize ?? 0} corpus rows)
+                </div>
+              ) : (
+                <div><strong>Training Ratio:</strong> {(results.configuration.trainingRatio * 100).toFixed(0)}%</div>
+              )}
+              {results.configuration.dataSource === 'corpus-queries' ? null : results.summary.crossValidation ? (
+                <div><strong>Evaluation:</strong> {results.summary.crossValidation.folds}-fold cross-validation × {results.summary.crossValidation.repeats} (seed {results.configuration.seed})</div>
+              ) : results.splits[0] && (
+                <div>
+                  <strong>Split:</strong> {results.splits[0].trainingSize} training / {results.splits[0].testingSize} testing {
+                    results.configuration.splitStrategy === 'time'
+                      ? `(by ${results.configuration.timeSplit?.column}, test from ${results.splits[0].testStart?.slice(0, 10) ?? 'n/a'})`
+                      : results.configuration.splitStrategy === 'stratified'
+                      ? `(stratified on ${results.configuration.stratifyColumn}, seed ${results.splits[0].seed})`
+                      : `(seed ${results.splits[0].seed})`
+                  }
+                </div>
+              )}
             </div>
             <div className="space-y-2">
-              <div><strong>Embedding Model:</strong> {results.configuration.embeddingConfig.model}</div>
+              <div>
+                <strong>Embedding Model:</strong> {results.configuration.embeddingConfig.model}
+                {results.configuration.embeddingConfig.model === 'openai-compatible' && 
+                  ` (${results.configuration.embeddingConfig.compatibleModel} at ${results.configuration.embeddingConfig.baseUrl})`
+                }
+                {results.configuration.embeddingConfig.model === 'local' && 
+                  ` (${results.configuration.embeddingConfig.pooling || 'mean'} pooling${
+                    results.configuration.embeddingConfig.normalize === false ? '' : ', normalized'
+                  })`
+                }
+              </div>
+              {(results.configuration.embeddingConfig.queryPrefix || results.configuration.embeddingConfig.passagePrefix) && (
+                <div>
+                  <strong>Prefixes:</strong> query "{results.configuration.embeddingConfig.queryPrefix ?? ''}", 
+                  passage "{results.configuration.embeddingConfig.passagePrefix ?? ''}"
+                </div>
+              )}
+              <div>
+                <strong>Retriever:</strong> {results.configuration.retriever || 'vector'}
+                {results.configuration.retriever === 'hybrid' && 
+                  ` (${results.configuration.hybrid?.method === 'rrf' ? 'RRF' : `alpha ${results.configuration.hybrid?.alpha ?? 0.5}`})`
+                }
+              </div>
+              <div>
+                <strong>Retrieval Mode:</strong> {results.configuration.retrievalMode || 'concatenated'}
+                {results.configuration.retrievalMode === 'field-level' && 
+                  ` (${results.configuration.fusion?.method || 'weighted-sum'} fusion)`
+                }
+              </div>
+              <div>
+                <strong>Chunking:</strong> {results.configuration.chunking 
+                  ? `${results.configuration.chunking.strategy}, ${
+                      results.configuration.chunkSizes?.length 
+                        ? `sizes ${results.configuration.chunkSizes.join(', ')}` 
+                        : `${results.configuration.chunking.chunkSize} words`
+                    }, overlap ${results.configuration.chunking.overlap ?? 0}` 
+                  : 'off'}
+              </div>
+              <div>
+                <strong>Reranker:</strong> {results.configuration.reranker 
+                  ? `${results.configuration.reranker.model || 'Xenova/ms-marco-MiniLM-L-6-v2'} (top ${results.configuration.reranker.candidates ?? 20})` 
+                  : 'off'}
+              </div>
+              <div>
+                <strong>Generation:</strong> {results.configuration.generation 
+                  ? `${results.configuration.generation.provider}${results.configuration.generation.model ? ` (${results.configuration.generation.model})` : ''}` 
+                  : 'off'}
+              </div>
               <div><strong>Selected Columns:</strong> {results.configuration.selectedColumns.join(', ')}</div>
               <div><strong>Y Column:</strong> {results.configuration.yColumn}</div>
+              {results.configuration.contextTemplate && (
+                <div>
+                  <strong>Context Template:</strong>{' '}
+                  <code className="text-xs whitespace-pre-wrap">
+                    {results.configuration.contextTemplate.template || 
+                      `${results.configuration.contextTemplate.includeLabels === false ? 'values' : 'labelled fields'} joined by "${results.configuration.contextTemplate.separator ?? ' | '}"`
+                    }
+                  </code>
+                </div>
+              )}
             </div>
           </div>
+
+          {results.splits[0]?.strata && (
+            <div className="mt-4">
+              <h4 className="font-medium mb-2">Split per {results.configuration.stratifyColumn}</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Value</th>
+                    <th className="text-left p-2">Rows</th>
+                    <th className="text-left p-2">Training</th>
+                    <th className="text-left p-2">Testing</th>
+                    <th className="text-left p-2">Test Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.splits[0].strata.map(stratum => (
+                    <tr key={stratum.value} className="border-b">
+                      <td className="p-2 font-medium">{stratum.value}</td>
+                      <td className="p-2">{stratum.total}</td>
+                      <td className="p-2">{stratum.training}</td>
+                      <td className="p-2">{stratum.testing}</td>
+                      <td className="p-2">{((stratum.testing / stratum.total) * 100).toFixed(0)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,10 +1,11 @@
 "use client"
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Select } from './ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { DEFAULT_CHUNK_SIZE } from '@/lib/embeddings/chunker'
 
 interface TableInfo {
   name: string
@@ -19,17 +20,113 @@ interface TableInfo {
 interface TestConfig {
   tableId: string
   tableName: string
+  filters?: Array<{
+    column: string
+    operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike' | 'in' | 'is_null' | 'not_null'
+    value?: any
+  }>
+  dataSource?: 'self-split' | 'corpus-queries'
+  querySet?: {
+    source: 'table' | 'jsonl'
+    tableName?: string
+    jsonl?: string
+    queryField: string
+    relevantIdsField: string
+    answerField?: string
+  }
   selectedColumns: string[]
+  searchStrategy?: 'exhaustive' | 'greedy-forward' | 'backward-elimination' | 'beam'
+  searchBudget?: number
+  beamWidth?: number
   yColumn: string
   queryColumn: string
   answerColumn: string
   embeddingConfig: {
-    model: 'openai' | 'local'
+    model: 'openai' | 'local' | 'openai-compatible'
     openaiModel?: string
     localModel?: string
+    pooling?: 'mean' | 'cls'
+    normalize?: boolean
+    queryPrefix?: string
+    passagePrefix?: string
+    baseUrl?: string
+    compatibleModel?: string
+    apiKey?: string
+    batchSize?: number
+    concurrency?: number
+    cache?: boolean
+    retry?: {
+      maxRetries?: number
+      initialDelayMs?: number
+      maxDelayMs?: number
+    }
+    rateLimit?: {
+      requestsPerMinute?: number
+      tokensPerMinute?: number
+    }
+  }
+  contextTemplate?: {
+    template?: string
+    includeLabels?: boolean
+    separator?: string
+    fieldOrder?: string[]
+    maxFieldLength?: number
+    jsonFormat?: 'compact' | 'pretty' | 'flatten'
+  }
+  chunking?: {
+    strategy: 'fixed' | 'sentence' | 'paragraph'
+    chunkSize: number
+    overlap?: number
+  }
+  chunkSizes?: number[]
+  retrievalMode?: 'concatenated' | 'field-level'
+  fusion?: {
+    method: 'weighted-sum' | 'max' | 'rrf'
+    weights?: Record<string, number>
+    rrfK?: number
   }
-  metricType: 'sql' | 'brdr'
+  retriever?: 'vector' | 'lexical' | 'hybrid'
+  hybrid?: {
+    method: 'alpha' | 'rrf'
+    alpha?: number
+    rrfK?: number
+  }
+  reranker?: {
+    model?: string
+    candidates?: number
+  }
+  generation?: {
+    provider: 'ai-sdk' | 'openai-compatible' | 'mock'
+    model?: string
+    baseUrl?: string
+    apiKey?: string
+    promptTemplate?: string
+    systemPrompt?: string
+    contexts?: number
+    includeAnswers?: boolean
+    temperature?: number
+    maxTokens?: number
+  }
+  metricType: string
+  metricTypes?: string[]
+  metricConfigs?: Record<string, Record<string, any>>
+  topK?: number
+  relevanceMode?: 'answer-equivalence'
+  idColumn?: string
   trainingRatio: number
+  splitStrategy?: 'random' | 'time' | 'stratified'
+  timeSplit?: {
+    column: string
+    cutoff?: string
+  }
+  stratifyColumn?: string
+  sampleSize?: number
+  seed?: number
+  evaluationMode?: 'holdout' | 'cross-validation'
+  crossValidation?: {
+    folds: number
+    repeats?: number
+  }
   testName: string
 }
 
@@ -44,6 +141,7 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
     tableId: tableInfo.name,
     tableName: tableInfo.name,
     selectedColumns: [],
+    searchStrategy: 'exhaustive',
     yColumn: '',
     queryColumn: '',
     answerColumn: '',
@@ -52,21 +150,88 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
       localModel: 'Xenova/all-MiniLM-L6-v2'
     },
     metricType: 'brdr',
+    topK: 5,
+    relevanceMode: 'answer-equivalence',
     trainingRatio: 0.8,
     testName: `Test_${tableInfo.name}_${new Date().toISOString().slice(0, 16).replace(/[:-]/g, '')}`
   })
 
   const [errors, setErrors] = useState<string[]>([])
+  const [chunkSweepText, setChunkSweepText] = useState('')
+
+  const isCorpusMode = config.dataSource === 'corpus-queries'
+  const isExhaustive = (config.searchStrategy || 'exhaustive') === 'exhaustive'
+  const maxColumns = isExhaustive ? 5 : tableInfo.columns.length
 
   const handleColumnToggle = (columnName: string) => {
     setConfig(prev => ({
       ...prev,
       selectedColumns: prev.selectedColumns.includes(columnName)
         ? prev.selectedColumns.filter(col => col !== columnName)
-        : [...prev.selectedColumns, columnName].slice(0, 5) // Limit to 5 columns
+        : [...prev.selectedColumns, columnName].slice(0, maxColumns) // Exhaustive search is limited to 5 columns
     }))
   }
 
+  // Upper bound on evaluated combinations for the chosen strategy, capped by the budget
+  const estimateCombinations = (): number => {
+    const n = config.selectedColumns.length
+    if (n === 0) return 0
+
+    let estimate: number
+    switch (config.searchStrategy) {
+      case 'greedy-forward':
+        estimate = (n * (n + 1)) / 2
+        break
+      case 'backward-elimination':
+        // The full set, then n, n-1, ..., 2 candidate removals
+        estimate = (n * (n + 1)) / 2
+        break
+      case 'beam':
+        estimate = n * n * (config.beamWidth ?? 3)
+        break
+      default:
+        estimate = Math.pow(2, Math.min(n, 5)) - 1
+    }
+
+    return config.searchBudget ? Math.min(estimate, config.searchBudget) : estimate
+  }
+
+  const [metricOptions, setMetricOptions] = useState<Array<{ value: string; label: string; description: string }>>([
+    { value: 'brdr', label: 'BRDR Banking Regulation Metric', description: 'Specialized for banking regulation documents' },
+    { value: 'sql', label: 'SQL Query Metric', description: 'Designed for SQL query comparison' }
+  ])
+
+  // Offer whatever metrics the server has registered
+  useEffect(() => {
+    fetch('/api/metrics')
+      .then(response => response.json())
+      .then(data => {
+        if (Array.isArray(data.metrics) && data.metrics.length > 0) {
+          setMetricOptions(data.metrics.map((metric: { id: string; name: string; description: string }) => ({
+            value: metric.id,
+            label: metric.name,
+            description: metric.description
+          })))
+        }
+      })
+      .catch(error => console.error('Failed to load metrics:', error))
+  }, [])
+
+  const selectedMetrics = config.metricTypes || [config.metricType]
+
+  const handleMetricToggle = (metricType: string) => {
+    setConfig(prev => {
+      const current = prev.metricTypes || [prev.metricType]
+      const next = current.includes(metricType)
+        ? current.filter(m => m !== metricType)
+        : [...current, metricType]
+
+      // Keep at least one metric selected; the first one is the primary metric
+      if (next.length === 0) return prev
+      return { ...prev, metricType: next[0], metricTypes: next }
+    })
+  }
+
   const validateConfiguration = (): string[] => {
     const errors: string[] = []
 
@@ -82,26 +247,140 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
       errors.push('Y column (target) must be selected')
     }
 
-    if (!config.queryColumn) {
-      errors.push('Query column must be selected')
-    }
+    if (isCorpusMode) {
+      if (!config.idColumn) {
+        errors.push('ID column must be selected to resolve relevant corpus ids')
+      }
+      if (config.querySet?.source === 'table' && !config.querySet.tableName) {
+        errors.push('Query set table name is required')
+      }
+      if (config.querySet?.source === 'jsonl' && !config.querySet.jsonl) {
+        errors.push('Upload a JSONL query set')
+      }
+      if (!config.querySet?.queryField || !config.querySet?.relevantIdsField) {
+        errors.push('Query set query and relevant ids fields are required')
+      }
+      if (config.evaluationMode === 'cross-validation') {
+        errors.push('Cross-validation is only available in self-split mode')
+      }
+    } else {
+      if (!config.queryColumn) {
+        errors.push('Query column must be selected')
+      }
 
-    if (!config.answerColumn) {
-      errors.push('Answer column must be selected')
+      if (!config.answerColumn) {
+        errors.push('Answer column must be selected')
+      }
     }
 
     if (config.selectedColumns.includes(config.yColumn)) {
       errors.push('Y column cannot be used as an embedding column')
     }
 
+    if (!isCorpusMode && config.answerColumn && config.selectedColumns.includes(config.answerColumn)) {
+      errors.push('Answer column cannot be used as an embedding column')
+    }
+
     if (config.trainingRatio <= 0 || config.trainingRatio >= 1) {
       errors.push('Training ratio must be between 0 and 1')
     }
 
+    if (config.searchBudget !== undefined && (!Number.isInteger(config.searchBudget) || config.searchBudget < 1)) {
+      errors.push('Search budget must be a positive integer')
+    }
+
+    if (config.contextTemplate?.maxFieldLength !== undefined && 
+        (!Number.isInteger(config.contextTemplate.maxFieldLength) || config.contextTemplate.maxFieldLength < 1)) {
+      errors.push('Max field length must be a positive integer')
+    }
+
+    if (config.chunking && (config.chunking.overlap ?? 0) >= 
+        Math.min(...(config.chunkSizes?.length ? config.chunkSizes : [config.chunking.chunkSize]))) {
+      errors.push('Chunk overlap must be smaller than the chunk size')
+    }
+
+    if (config.generation?.provider === 'openai-compatible' && 
+        (!config.generation.baseUrl || !config.generation.model)) {
+      errors.push('OpenAI-compatible generation requires a base URL and a model')
+    }
+
+    if (config.retriever === 'hybrid' && config.hybrid?.alpha !== undefined && 
+        !(config.hybrid.alpha >= 0 && config.hybrid.alpha <= 1)) {
+      errors.push('Hybrid alpha must be between 0 and 1')
+    }
+
+    if (config.topK !== undefined && (!Number.isInteger(config.topK) || config.topK < 1)) {
+      errors.push('Top K must be a positive integer')
+    }
+
+    if (config.seed !== undefined && (!Number.isInteger(config.seed) || config.seed < 0)) {
+      errors.push('Seed must be a non-negative integer')
+    }
+
+    for (const filter of config.filters || []) {
+      if (filter.operator !== 'is_null' && filter.operator !== 'not_null' && 
+          (filter.value === undefined || String(filter.value).trim() === '')) {
+        errors.push(`Filter on "${filter.column}" needs a value`)
+      }
+    }
+
+    if (config.sampleSize !== undefined && (!Number.isInteger(config.sampleSize) || config.sampleSize < 1)) {
+      errors.push('Sample size must be a positive integer')
+    }
+
+    if (config.splitStrategy === 'time') {
+      if (!config.timeSplit?.column) {
+        errors.push('Time-based split requires a date or timestamp column')
+      }
+      if (config.evaluationMode === 'cross-validation') {
+        errors.push('Time-based split cannot be combined with cross-validation')
+      }
+    }
+
+    if (config.splitStrategy === 'stratified') {
+      if (!config.stratifyColumn) {
+        errors.push('Stratified split requires a column to stratify on')
+      }
+      if (config.evaluationMode === 'cross-validation') {
+        errors.push('Stratified split cannot be combined with cross-validation')
+      }
+    }
+
+    if (config.evaluationMode === 'cross-validation') {
+      const folds = config.crossValidation?.folds ?? 0
+      if (!Number.isInteger(folds) || folds < 2) {
+        errors.push('Cross-validation requires at least 2 folds')
+      }
+      if (!Number.isInteger(config.crossValidation?.repeats ?? 1) || (config.crossValidation?.repeats ?? 1) < 1) {
+        errors.push('Cross-validation repeats must be at least 1')
+      }
+    }
+
     if (config.embeddingConfig.model === 'openai' && !config.embeddingConfig.openaiModel) {
       errors.push('OpenAI model must be specified when using OpenAI embeddings')
     }
 
+    if (config.embeddingConfig.model === 'openai-compatible' && 
+        (!config.embeddingConfig.baseUrl || !config.embeddingConfig.compatibleModel)) {
+      errors.push('OpenAI-compatible embeddings require a base URL and a model')
+    }
+
+    for (const [label, value] of [
+      ['Embedding batch size', config.embeddingConfig.batchSize],
+      ['Embedding concurrency', config.embeddingConfig.concurrency],
+      ['Requests per minute', config.embeddingConfig.rateLimit?.requestsPerMinute],
+      ['Tokens per minute', config.embeddingConfig.rateLimit?.tokensPerMinute]
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        errors.push(`${label} must be a positive integer`)
+      }
+    }
+
+    const maxRetries = config.embeddingConfig.retry?.maxRetries
+    if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0)) {
+      errors.push('Max retries must be a non-negative integer')
+    }
+
     return errors
   }
 
@@ -116,6 +395,100 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
     }
   }
 
+  type RowFilter = NonNullable<TestConfig['filters']>[number]
+
+  const filterOperators: Array<{ value: RowFilter['operator']; label: string }> = [
+    { value: 'eq', label: '=' },
+    { value: 'neq', label: '≠' },
+    { value: 'gt', label: '>' },
+    { value: 'gte', label: '≥' },
+    { value: 'lt', label: '<' },
+    { value: 'lte', label: '≤' },
+    { value: 'like', label: 'like' },
+    { value: 'ilike', label: 'ilike (case-insensitive)' },
+    { value: 'in', label: 'in (comma-separated)' },
+    { value: 'is_null', label: 'is null' },
+    { value: 'not_null', label: 'is not null' }
+  ]
+
+  const addFilter = () => {
+    setConfig(prev => ({
+      ...prev,
+      filters: [...(prev.filters || []), { column: tableInfo.columns[0]?.column_name || '', operator: 'eq', value: '' }]
+    }))
+  }
+
+  const updateFilter = (index: number, changes: Partial<RowFilter>) => {
+    setConfig(prev => ({
+      ...prev,
+      filters: (prev.filters || []).map((filter, i) => i === index ? { ...filter, ...changes } : filter)
+    }))
+  }
+
+  const removeFilter = (index: number) => {
+    setConfig(prev => {
+      const filters = (prev.filters || []).filter((_, i) => i !== index)
+      return { ...prev, filters: filters.length > 0 ? filters : undefined }
+    })
+  }
+
+  const temporalColumns = tableInfo.columns.filter(col => 
+    col.data_type.toLowerCase() === 'date' || col.data_type.toLowerCase().startsWith('timestamp')
+  )
+
+  const updateQuerySet = (changes: Partial<NonNullable<TestConfig['querySet']>>) => {
+    setConfig(prev => ({
+      ...prev,
+      querySet: { source: 'table', queryField: 'question', relevantIdsField: 'relevant_ids', ...prev.querySet, ...changes }
+    }))
+  }
+
+  const handleQuerySetUpload = async (file: File | undefined) => {
+    if (!file) return
+    updateQuerySet({ source: 'jsonl', jsonl: await file.text() })
+  }
+
+  const updateChunking = (changes: Partial<NonNullable<TestConfig['chunking']>>) => {
+    setConfig(prev => ({
+      ...prev,
+      chunking: { strategy: 'fixed', chunkSize: DEFAULT_CHUNK_SIZE, ...prev.chunking, ...changes }
+    }))
+  }
+
+  const updateChunkSweep = (text: string) => {
+    setChunkSweepText(text)
+    const sizes = text.split(',').map(value => parseInt(value.trim())).filter(size => Number.isInteger(size) && size > 0)
+    setConfig(prev => ({ ...prev, chunkSizes: sizes.length > 0 ? sizes : undefined }))
+  }
+
+  const updateGeneration = (changes: Partial<NonNullable<TestConfig['generation']>>) => {
+    setConfig(prev => ({
+      ...prev,
+      generation: { provider: 'ai-sdk', ...prev.generation, ...changes }
+    }))
+  }
+
+  const updateHybrid = (changes: Partial<NonNullable<TestConfig['hybrid']>>) => {
+    setConfig(prev => ({
+      ...prev,
+      hybrid: { method: 'alpha', ...prev.hybrid, ...changes }
+    }))
+  }
+
+  const updateFusion = (changes: Partial<NonNullable<TestConfig['fusion']>>) => {
+    setConfig(prev => ({
+      ...prev,
+      fusion: { method: 'weighted-sum', ...prev.fusion, ...changes }
+    }))
+  }
+
+  const updateContextTemplate = (changes: Partial<NonNullable<TestConfig['contextTemplate']>>) => {
+    setConfig(prev => ({
+      ...prev,
+      contextTemplate: { ...prev.contextTemplate, ...changes }
+    }))
+  }
+
   const textColumns = tableInfo.columns.filter(col => 
     col.data_type.includes('text') || 
     col.data_type.includes('varchar') || 
@@ -168,28 +541,418 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
                   {Math.round(config.trainingRatio * 100)}% for training, {Math.round((1 - config.trainingRatio) * 100)}% for testing
                 </p>
               </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Sample Size (optional)</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={config.sampleSize ?? ''}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    sampleSize: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                  }))}
+                  placeholder={`All ${tableInfo.rowCount} rows`}
+                  className="text-gray-100"
+                />
+                <p className="text-xs text-gray-700">
+                  Randomly sample this many rows (using the seed) instead of loading the whole table
+                </p>
+              </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-900">Metric Type</label>
+                <label className="text-sm font-medium text-gray-900">Evaluation Mode</label>
                 <Select
-                  value={config.metricType}
-                  onChange={(e) => setConfig(prev => ({ ...prev, metricType: e.target.value as 'sql' | 'brdr' }))}
+                  value={config.evaluationMode || 'holdout'}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    evaluationMode: e.target.value as 'holdout' | 'cross-validation',
+                    crossValidation: prev.crossValidation || { folds: 5, repeats: 1 }
+                  }))}
                   options={[
-                    { value: 'brdr', label: 'BRDR Banking Regulation Metric' },
-                    { value: 'sql', label: 'SQL Query Metric' }
+                    { value: 'holdout', label: 'Single Holdout Split' },
+                    { value: 'cross-validation', label: 'K-Fold Cross-Validation' }
                   ]}
                   className="text-gray-100"
                 />
                 <p className="text-xs text-gray-700">
-                  {config.metricType === 'brdr' ? 
-                    'Specialized for banking regulation documents' : 
-                    'Designed for SQL query comparison'
+                  {config.evaluationMode === 'cross-validation' ?
+                    'Scores every fold and reports mean and standard deviation' :
+                    'Scores one train/test split using the training ratio'
                   }
                 </p>
               </div>
+
+              {config.evaluationMode === 'cross-validation' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-900">Folds</label>
+                    <Input
+                      type="number"
+                      min="2"
+                      step="1"
+                      value={config.crossValidation?.folds ?? 5}
+                      onChange={(e) => setConfig(prev => ({ 
+                        ...prev, 
+                        crossValidation: { 
+                          folds: parseInt(e.target.value, 10), 
+                          repeats: prev.crossValidation?.repeats ?? 1 
+                        }
+                      }))}
+                      className="text-gray-100"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-900">Repeats</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={config.crossValidation?.repeats ?? 1}
+                      onChange={(e) => setConfig(prev => ({ 
+                        ...prev, 
+                        crossValidation: { 
+                          folds: prev.crossValidation?.folds ?? 5, 
+                          repeats: parseInt(e.target.value, 10) 
+                        }
+                      }))}
+                      className="text-gray-100"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {!isCorpusMode && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Split Strategy</label>
+                  <Select
+                    value={config.splitStrategy || 'random'}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      splitStrategy: e.target.value as 'random' | 'time' | 'stratified',
+                      timeSplit: prev.timeSplit || { column: temporalColumns[0]?.column_name || '' },
+                      stratifyColumn: prev.stratifyColumn || prev.yColumn || undefined
+                    }))}
+                    options={[
+                      { value: 'random', label: 'Random (seeded)' },
+                      { value: 'time', label: 'Time-based (test on the most recent rows)' },
+                      { value: 'stratified', label: 'Stratified (split each category)' }
+                    ]}
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-700">
+                    {config.splitStrategy === 'time' ?
+                      'Trains on older rows and tests on newer ones, so no future knowledge leaks into training' :
+                      config.splitStrategy === 'stratified' ?
+                      'Splits every value of the chosen column by the training ratio' :
+                      'Shuffles rows before splitting'
+                    }
+                  </p>
+                </div>
+
+                {config.splitStrategy === 'time' && (
+                  <>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-900">Date Column</label>
+                      <Select
+                        value={config.timeSplit?.column || ''}
+                        onChange={(e) => setConfig(prev => ({ 
+                          ...prev, 
+                          timeSplit: { ...prev.timeSplit, column: e.target.value }
+                        }))}
+                        options={[
+                          { value: '', label: temporalColumns.length > 0 ? 'Select date column...' : 'No date or timestamp columns' },
+                          ...temporalColumns.map(col => ({ 
+                            value: col.column_name, 
+                            label: `${col.column_name} (${col.data_type})` 
+                          }))
+                        ]}
+                        className="text-gray-100"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-900">Cutoff Date (optional)</label>
+                      <Input
+                        type="date"
+                        value={config.timeSplit?.cutoff ?? ''}
+                        onChange={(e) => setConfig(prev => ({ 
+                          ...prev, 
+                          timeSplit: { column: prev.timeSplit?.column || '', cutoff: e.target.value || undefined }
+                        }))}
+                        className="text-gray-100"
+                      />
+                      <p className="text-xs text-gray-700">
+                        {config.timeSplit?.cutoff ?
+                          'Rows on or after this date are the test set' :
+                          `Without a cutoff the most recent ${Math.round((1 - config.trainingRatio) * 100)}% of rows are the test set`
+                        }
+                      </p>
+                    </div>
+                  </>
+                )}
+
+                {config.splitStrategy === 'stratified' && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-900">Stratify By</label>
+                    <Select
+                      value={config.stratifyColumn || ''}
+                      onChange={(e) => setConfig(prev => ({ ...prev, stratifyColumn: e.target.value || undefined }))}
+                      options={[
+                        { value: '', label: 'Select column...' },
+                        ...tableInfo.columns.map(col => ({ 
+                          value: col.column_name, 
+                          label: `${col.column_name} (${col.data_type})` 
+                        }))
+                      ]}
+                      className="text-gray-100"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Random Seed</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={config.seed ?? ''}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    seed: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                  }))}
+                  placeholder="Random"
+                  className="text-gray-100"
+                />
+                <p className="text-xs text-gray-700">
+                  Fixes the train/test split so runs can be reproduced (leave empty for a random seed)
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Metrics</label>
+                <div className="flex flex-col gap-1 border rounded p-2">
+                  {metricOptions.map(option => (
+                    <label key={option.value} className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedMetrics.includes(option.value)}
+                        onChange={() => handleMetricToggle(option.value)}
+                        className="rounded"
+                      />
+                      <span className="text-sm" title={option.description}>{option.label}</span>
+                      {config.metricType === option.value && (
+                        <span className="text-xs bg-blue-100 text-blue-800 px-2 rounded">Primary</span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-700">
+                  Every selected metric scores the same retrievals; the first selected is primary
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Top K</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={config.topK ?? 5}
+                  onChange={(e) => setConfig(prev => ({ ...prev, topK: parseInt(e.target.value, 10) }))}
+                  className="text-gray-100"
+                />
+                <p className="text-xs text-gray-700">
+                  Candidates retrieved per query for Recall@k, MRR, nDCG and Hit@k
+                </p>
+              </div>
+
+              {!isCorpusMode && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Relevance</label>
+                  <p className="text-xs text-gray-700">
+                    A candidate is relevant when its Y value matches the expected answer. 
+                    For row-level relevance, use a query set with relevant IDs
+                  </p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Data Source */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Data Source</CardTitle>
+            <CardDescription className="text-gray-700">
+              Split this table into train and test, or index it as a corpus and evaluate a separate query set
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Mode</label>
+                <Select
+                  value={config.dataSource || 'self-split'}
+                  onChange={(e) => {
+                    const dataSource = e.target.value as 'self-split' | 'corpus-queries'
+                    setConfig(prev => ({ ...prev, dataSource }))
+                    if (dataSource === 'corpus-queries') updateQuerySet({})
+                  }}
+                  options={[
+                    { value: 'self-split', label: 'Self-Split (one table)' },
+                    { value: 'corpus-queries', label: 'Corpus + Query Set' }
+                  ]}
+                  className="text-gray-100"
+                />
+              </div>
+
+              {isCorpusMode && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Corpus ID Column</label>
+                  <Select
+                    value={config.idColumn || ''}
+                    onChange={(e) => setConfig(prev => ({ ...prev, idColumn: e.target.value || undefined }))}
+                    options={tableInfo.columns.map(col => ({ 
+                      value: col.column_name, 
+                      label: `${col.column_name} (${col.data_type})` 
+                    }))}
+                    className="text-gray-100"
+                  >
+                    <option value="">Select ID column...</option>
+                  </Select>
+                  <p className="text-xs text-gray-700">The ids referenced by the query set</p>
+                </div>
+              )}
+
+              {isCorpusMode && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Query Set Source</label>
+                  <Select
+                    value={config.querySet?.source || 'table'}
+                    onChange={(e) => updateQuerySet({ source: e.target.value as 'table' | 'jsonl' })}
+                    options={[
+                      { value: 'table', label: 'Database Table' },
+                      { value: 'jsonl', label: 'Uploaded JSONL' }
+                    ]}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
             </div>
+
+            {isCorpusMode && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {config.querySet?.source === 'jsonl' ? (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-900">JSONL File</label>
+                    <input
+                      type="file"
+                      accept=".jsonl,.json,.txt"
+                      onChange={(e) => handleQuerySetUpload(e.target.files?.[0])}
+                      className="text-sm"
+                    />
+                    {config.querySet.jsonl && (
+                      <p className="text-xs text-gray-700">
+                        {config.querySet.jsonl.split('\n').filter(line => line.trim()).length} lines loaded
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-900">Query Table</label>
+                    <Input
+                      value={config.querySet?.tableName || ''}
+                      onChange={(e) => updateQuerySet({ tableName: e.target.value })}
+                      placeholder="gold_questions"
+                      className="text-gray-100"
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Query Field</label>
+                  <Input
+                    value={config.querySet?.queryField || ''}
+                    onChange={(e) => updateQuerySet({ queryField: e.target.value })}
+                    className="text-gray-100"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Relevant IDs Field</label>
+                  <Input
+                    value={config.querySet?.relevantIdsField || ''}
+                    onChange={(e) => updateQuerySet({ relevantIdsField: e.target.value })}
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-700">A single id, an array or a comma-separated list</p>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Answer Field (optional)</label>
+                  <Input
+                    value={config.querySet?.answerField || ''}
+                    onChange={(e) => updateQuerySet({ answerField: e.target.value || undefined })}
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-700">Defaults to the first relevant row&apos;s Y value</p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Row Filters */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Row Filters</CardTitle>
+            <CardDescription className="text-gray-700">
+              Evaluate only the rows matching every filter, e.g. language = en
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(config.filters || []).map((filter, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center">
+                <Select
+                  value={filter.column}
+                  onChange={(e) => updateFilter(index, { column: e.target.value })}
+                  options={tableInfo.columns.map(col => ({ 
+                    value: col.column_name, 
+                    label: `${col.column_name} (${col.data_type})` 
+                  }))}
+                  className="text-gray-100"
+                />
+                <Select
+                  value={filter.operator}
+                  onChange={(e) => updateFilter(index, { operator: e.target.value as RowFilter['operator'] })}
+                  options={filterOperators}
+                  className="text-gray-100"
+                />
+                <Input
+                  value={filter.value ?? ''}
+                  onChange={(e) => updateFilter(index, { value: e.target.value })}
+                  disabled={filter.operator === 'is_null' || filter.operator === 'not_null'}
+                  placeholder={filter.operator === 'in' ? 'en, fr' : 'Value'}
+                  className="text-gray-100"
+                />
+                <Button type="button" variant="outline" onClick={() => removeFilter(index)}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" onClick={addFilter}>
+              Add Filter
+            </Button>
           </CardContent>
         </Card>
 
@@ -202,7 +965,10 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
           <CardContent className="space-y-4">
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-900">
-                Embedding Columns (Select up to 5 columns for embedding combinations)
+                {isExhaustive ?
+                  'Embedding Columns (Select up to 5 columns for embedding combinations)' :
+                  'Embedding Columns (The search strategy decides which combinations to evaluate)'
+                }
               </label>
               <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto border rounded p-2">
                 {tableInfo.columns.map((col) => (
@@ -211,7 +977,7 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
                       type="checkbox"
                       checked={config.selectedColumns.includes(col.column_name)}
                       onChange={() => handleColumnToggle(col.column_name)}
-                      disabled={!config.selectedColumns.includes(col.column_name) && config.selectedColumns.length >= 5}
+                      disabled={!config.selectedColumns.includes(col.column_name) && config.selectedColumns.length >= maxColumns}
                       className="rounded"
                     />
                     <span className="text-sm">{col.column_name}</span>
@@ -220,10 +986,68 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
                 ))}
               </div>
               <p className="text-xs text-gray-700">
-                Selected: {config.selectedColumns.length}/5 columns
+                Selected: {config.selectedColumns.length}/{maxColumns} columns
               </p>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Search Strategy</label>
+                <Select
+                  value={config.searchStrategy || 'exhaustive'}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    searchStrategy: e.target.value as TestConfig['searchStrategy'] 
+                  }))}
+                  options={[
+                    { value: 'exhaustive', label: 'Exhaustive (all subsets)' },
+                    { value: 'greedy-forward', label: 'Greedy Forward Selection' },
+                    { value: 'backward-elimination', label: 'Backward Elimination' },
+                    { value: 'beam', label: 'Beam Search' }
+                  ]}
+                  className="text-gray-100"
+                />
+                {isExhaustive && config.selectedColumns.length > 5 && (
+                  <p className="text-xs text-yellow-700">
+                    Exhaustive search uses the first 5 columns; dropped: {config.selectedColumns.slice(5).join(', ')}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Search Budget</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={config.searchBudget ?? ''}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    searchBudget: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                  }))}
+                  placeholder="Unlimited"
+                  className="text-gray-100"
+                />
+                <p className="text-xs text-gray-700">
+                  Maximum number of combinations to evaluate
+                </p>
+              </div>
+
+              {config.searchStrategy === 'beam' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Beam Width</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={config.beamWidth ?? 3}
+                    onChange={(e) => setConfig(prev => ({ ...prev, beamWidth: parseInt(e.target.value, 10) }))}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium text-gray-900">Y Column (Target)</label>
@@ -244,45 +1068,521 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
                 </p>
               </div>
 
+              {!isCorpusMode && (
+                <>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-900">Query Column</label>
+                    <Select
+                      value={config.queryColumn}
+                      onChange={(e) => setConfig(prev => ({ ...prev, queryColumn: e.target.value }))}
+                      options={textColumns.map(col => ({ 
+                        value: col.column_name, 
+                        label: `${col.column_name} (${col.data_type})` 
+                      }))}          
+                      className="text-gray-100"
+                    >
+                      <option value="">Select query column...</option>
+                    </Select>
+                    <p className="text-xs text-gray-700">
+                      Column containing test queries
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-900">Answer Column</label>
+                    <Select
+                      value={config.answerColumn}
+                      onChange={(e) => setConfig(prev => ({ ...prev, answerColumn: e.target.value }))}
+                      options={tableInfo.columns.map(col => ({ 
+                        value: col.column_name, 
+                        label: `${col.column_name} (${col.data_type})` 
+                      }))}                  
+                      className="text-gray-100"
+                    >
+                      <option value="">Select answer column...</option>
+                    </Select>
+                    <p className="text-xs text-gray-700">
+                      Column containing expected answers
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Retrieval Mode */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Retrieval</CardTitle>
+            <CardDescription className="text-gray-700">Choose the retriever and how the combination is embedded</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-900">Query Column</label>
+                <label className="text-sm font-medium text-gray-900">Retriever</label>
                 <Select
-                  value={config.queryColumn}
-                  onChange={(e) => setConfig(prev => ({ ...prev, queryColumn: e.target.value }))}
-                  options={textColumns.map(col => ({ 
-                    value: col.column_name, 
-                    label: `${col.column_name} (${col.data_type})` 
-                  }))}          
+                  value={config.retriever || 'vector'}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    retriever: e.target.value as 'vector' | 'lexical' | 'hybrid' 
+                  }))}
+                  options={[
+                    { value: 'vector', label: 'Vector (cosine similarity)' },
+                    { value: 'lexical', label: 'Lexical (BM25)' },
+                    { value: 'hybrid', label: 'Hybrid (BM25 + vector)' }
+                  ]}
                   className="text-gray-100"
-                >
-                  <option value="">Select query column...</option>
-                </Select>
-                <p className="text-xs text-gray-700">
-                  Column containing test queries
-                </p>
+                />
               </div>
 
+              {config.retriever === 'hybrid' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Hybrid Scoring</label>
+                  <Select
+                    value={config.hybrid?.method || 'alpha'}
+                    onChange={(e) => updateHybrid({ method: e.target.value as 'alpha' | 'rrf' })}
+                    options={[
+                      { value: 'alpha', label: 'Alpha Blend' },
+                      { value: 'rrf', label: 'Reciprocal Rank Fusion' }
+                    ]}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+
+              {config.retriever === 'hybrid' && (config.hybrid?.method || 'alpha') === 'alpha' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Alpha</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.1"
+                    value={config.hybrid?.alpha ?? 0.5}
+                    onChange={(e) => updateHybrid({ alpha: parseFloat(e.target.value) })}
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-700">1 = vector only, 0 = lexical only</p>
+                </div>
+              )}
+
+              {config.retriever === 'hybrid' && config.hybrid?.method === 'rrf' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">RRF Constant (k)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={config.hybrid?.rrfK ?? 60}
+                    onChange={(e) => updateHybrid({ rrfK: parseFloat(e.target.value) })}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-900">Answer Column</label>
+                <label className="text-sm font-medium text-gray-900">Mode</label>
                 <Select
-                  value={config.answerColumn}
-                  onChange={(e) => setConfig(prev => ({ ...prev, answerColumn: e.target.value }))}
-                  options={tableInfo.columns.map(col => ({ 
-                    value: col.column_name, 
-                    label: `${col.column_name} (${col.data_type})` 
-                  }))}                  
+                  value={config.retrievalMode || 'concatenated'}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    retrievalMode: e.target.value as 'concatenated' | 'field-level' 
+                  }))}
+                  options={[
+                    { value: 'concatenated', label: 'Concatenated (one embedding per row)' },
+                    { value: 'field-level', label: 'Field-Level (one embedding per column)' }
+                  ]}
                   className="text-gray-100"
-                >
-                  <option value="">Select answer column...</option>
-                </Select>
-                <p className="text-xs text-gray-700">
-                  Column containing expected answers
-                </p>
+                />
+              </div>
+
+              {config.retrievalMode === 'field-level' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Fusion</label>
+                  <Select
+                    value={config.fusion?.method || 'weighted-sum'}
+                    onChange={(e) => updateFusion({ method: e.target.value as 'weighted-sum' | 'max' | 'rrf' })}
+                    options={[
+                      { value: 'weighted-sum', label: 'Weighted Sum' },
+                      { value: 'max', label: 'Max' },
+                      { value: 'rrf', label: 'Reciprocal Rank Fusion' }
+                    ]}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+
+              {config.retrievalMode === 'field-level' && config.fusion?.method === 'rrf' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">RRF Constant (k)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={config.fusion?.rrfK ?? 60}
+                    onChange={(e) => updateFusion({ rrfK: parseFloat(e.target.value) })}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+            </div>
+
+            {config.retrievalMode === 'field-level' && config.selectedColumns.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Field Weights</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {config.selectedColumns.map(column => (
+                    <div key={column} className="space-y-1">
+                      <span className="text-xs text-gray-700">{column}</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={config.fusion?.weights?.[column] ?? 1}
+                        onChange={(e) => updateFusion({ 
+                          weights: { ...config.fusion?.weights, [column]: parseFloat(e.target.value) } 
+                        })}
+                        className="text-gray-100"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 cursor-pointer mt-7">
+                  <input
+                    type="checkbox"
+                    checked={!!config.reranker}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      reranker: e.target.checked ? {} : undefined 
+                    }))}
+                    className="rounded"
+                  />
+                  <span className="text-sm">Rerank with a cross-encoder</span>
+                </label>
+              </div>
+
+              {config.reranker && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Reranker Model</label>
+                  <Input
+                    value={config.reranker.model || ''}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      reranker: { ...prev.reranker, model: e.target.value || undefined } 
+                    }))}
+                    placeholder="Xenova/ms-marco-MiniLM-L-6-v2"
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+
+              {config.reranker && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Candidates to Rerank</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={config.reranker.candidates ?? 20}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      reranker: { ...prev.reranker, candidates: parseInt(e.target.value) } 
+                    }))}
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-700">Retrieved by the first stage, then reordered</p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Context Template */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Context Template</CardTitle>
+            <CardDescription className="text-gray-700">Control how each row is turned into the text that gets embedded</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-900">Template</label>
+              <textarea
+                value={config.contextTemplate?.template || ''}
+                onChange={(e) => updateContextTemplate({ template: e.target.value || undefined })}
+                placeholder={config.selectedColumns.length > 0 ?
+                  config.selectedColumns.map(col => `{${col}}`).join('\n\n') :
+                  '{title}\n\n{body}'
+                }
+                rows={3}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono text-gray-100"
+              />
+              <p className="text-xs text-gray-700">
+                Use {'{column}'} placeholders. Leave empty to join fields as "column: value | column: value"
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Field Order</label>
+                <Input
+                  value={(config.contextTemplate?.fieldOrder || []).join(', ')}
+                  onChange={(e) => updateContextTemplate({ 
+                    fieldOrder: e.target.value.split(',').map(col => col.trim()).filter(Boolean) 
+                  })}
+                  placeholder="Selection order"
+                  disabled={!!config.contextTemplate?.template}
+                  className="text-gray-100"
+                />
+                <p className="text-xs text-gray-700">Comma-separated columns to put first</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Separator</label>
+                <Input
+                  value={config.contextTemplate?.separator ?? ' | '}
+                  onChange={(e) => updateContextTemplate({ separator: e.target.value })}
+                  disabled={!!config.contextTemplate?.template}
+                  className="text-gray-100"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Max Field Length</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={config.contextTemplate?.maxFieldLength ?? ''}
+                  onChange={(e) => updateContextTemplate({ 
+                    maxFieldLength: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                  })}
+                  placeholder="No limit"
+                  className="text-gray-100"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">JSON Values</label>
+                <Select
+                  value={config.contextTemplate?.jsonFormat || 'compact'}
+                  onChange={(e) => updateContextTemplate({ 
+                    jsonFormat: e.target.value as 'compact' | 'pretty' | 'flatten' 
+                  })}
+                  options={[
+                    { value: 'compact', label: 'Compact JSON' },
+                    { value: 'pretty', label: 'Pretty JSON' },
+                    { value: 'flatten', label: 'Flattened key: value' }
+                  ]}
+                  className="text-gray-100"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 cursor-pointer mt-7">
+                  <input
+                    type="checkbox"
+                    checked={config.contextTemplate?.includeLabels !== false}
+                    onChange={(e) => updateContextTemplate({ includeLabels: e.target.checked })}
+                    disabled={!!config.contextTemplate?.template}
+                    className="rounded"
+                  />
+                  <span className="text-sm">Include column labels</span>
+                </label>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Chunking */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Chunking</CardTitle>
+            <CardDescription className="text-gray-700">
+              Split long row contexts into chunks so the embedding model sees the whole text; chunk hits map back to their rows
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Strategy</label>
+                <Select
+                  value={config.chunking?.strategy || 'none'}
+                  onChange={(e) => {
+                    const strategy = e.target.value
+                    if (strategy === 'none') {
+                      setConfig(prev => ({ ...prev, chunking: undefined }))
+                    } else {
+                      updateChunking({ strategy: strategy as 'fixed' | 'sentence' | 'paragraph' })
+                    }
+                  }}
+                  options={[
+                    { value: 'none', label: 'None (whole row)' },
+                    { value: 'fixed', label: 'Fixed Word Windows' },
+                    { value: 'sentence', label: 'Sentences' },
+                    { value: 'paragraph', label: 'Paragraphs' }
+                  ]}
+                  className="text-gray-100"
+                />
+              </div>
+
+              {config.chunking && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Chunk Size (words)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={config.chunking.chunkSize}
+                    onChange={(e) => updateChunking({ chunkSize: parseInt(e.target.value) })}
+                    disabled={!!config.chunkSizes?.length}
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-700">
+                    Counted in words, not model tokens - MiniLM truncates at 256 wordpieces (about 190 words)
+                  </p>
+                </div>
+              )}
+
+              {config.chunking && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Overlap (words)</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={config.chunking.overlap ?? 0}
+                    onChange={(e) => updateChunking({ overlap: parseInt(e.target.value) })}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+
+              {config.chunking && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Size Sweep (optional)</label>
+                  <Input
+                    value={chunkSweepText}
+                    onChange={(e) => updateChunkSweep(e.target.value)}
+                    placeholder="100, 150, 190"
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-700">Each combination runs once per size</p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Answer Generation */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Answer Generation</CardTitle>
+            <CardDescription className="text-gray-700">
+              Optionally send the retrieved contexts to an LLM and score its answer instead of the top row's Y value
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Generator</label>
+                <Select
+                  value={config.generation?.provider || 'none'}
+                  onChange={(e) => {
+                    const provider = e.target.value
+                    if (provider === 'none') {
+                      setConfig(prev => ({ ...prev, generation: undefined }))
+                    } else {
+                      updateGeneration({ provider: provider as 'ai-sdk' | 'openai-compatible' | 'mock' })
+                    }
+                  }}
+                  options={[
+                    { value: 'none', label: 'None (score retrieved answer)' },
+                    { value: 'ai-sdk', label: 'OpenAI (ai SDK)' },
+                    { value: 'openai-compatible', label: 'OpenAI-Compatible Endpoint' },
+                    { value: 'mock', label: 'Mock (echo top answer)' }
+                  ]}
+                  className="text-gray-100"
+                />
+              </div>
+
+              {config.generation && config.generation.provider !== 'mock' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Model</label>
+                  <Input
+                    value={config.generation.model || ''}
+                    onChange={(e) => updateGeneration({ model: e.target.value || undefined })}
+                    placeholder={config.generation.provider === 'ai-sdk' ? 'gpt-4o-mini' : 'llama3.1'}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+
+              {config.generation && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Contexts in Prompt</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={config.generation.contexts ?? config.topK ?? 5}
+                    onChange={(e) => updateGeneration({ contexts: parseInt(e.target.value) })}
+                    className="text-gray-100"
+                  />
+                </div>
+              )}
+            </div>
+
+            {config.generation?.provider === 'openai-compatible' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">Base URL</label>
+                  <Input
+                    value={config.generation.baseUrl || ''}
+                    onChange={(e) => updateGeneration({ baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className="text-gray-100"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-900">API Key (optional)</label>
+                  <Input
+                    type="password"
+                    value={config.generation.apiKey || ''}
+                    onChange={(e) => updateGeneration({ apiKey: e.target.value || undefined })}
+                    className="text-gray-100"
+                  />
+                </div>
+              </div>
+            )}
+
+            {config.generation && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-900">Prompt Template (optional)</label>
+                <textarea
+                  value={config.generation.promptTemplate || ''}
+                  onChange={(e) => updateGeneration({ promptTemplate: e.target.value || undefined })}
+                  placeholder={'Answer the question using only the context below.\n\nContext:\n{context}\n\nQuestion: {query}\nAnswer:'}
+                  rows={5}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono text-gray-100"
+                />
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!config.generation.includeAnswers}
+                    onChange={(e) => updateGeneration({ includeAnswers: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="text-sm">Include retrieved Y values in the prompt</span>
+                </label>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Embedding Configuration */}
         <Card>
           <CardHeader>
@@ -298,12 +1598,13 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
                   ...prev, 
                   embeddingConfig: { 
                     ...prev.embeddingConfig, 
-                    model: e.target.value as 'openai' | 'local' 
+                    model: e.target.value as 'openai' | 'local' | 'openai-compatible' 
                   }
                 }))}
                 options={[
                   { value: 'local', label: 'Local Model (Xenova/all-MiniLM-L6-v2)' },
-                  { value: 'openai', label: 'OpenAI Embeddings' }
+                  { value: 'openai', label: 'OpenAI Embeddings' },
+                  { value: 'openai-compatible', label: 'OpenAI-Compatible Endpoint (Ollama, vLLM, LM Studio, TEI)' }
                 ]}
                 className="text-gray-100"
               />
@@ -333,6 +1634,50 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
               </div>
             )}
 
+            {config.embeddingConfig.model === 'openai-compatible' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Base URL</label>
+                  <Input
+                    value={config.embeddingConfig.baseUrl || ''}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { ...prev.embeddingConfig, baseUrl: e.target.value }
+                    }))}
+                    placeholder="http://localhost:11434/v1"
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Requests go to {'{base URL}'}/embeddings
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Model</label>
+                  <Input
+                    value={config.embeddingConfig.compatibleModel || ''}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { ...prev.embeddingConfig, compatibleModel: e.target.value }
+                    }))}
+                    placeholder="nomic-embed-text"
+                    className="text-gray-100"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">API Key (optional)</label>
+                  <Input
+                    type="password"
+                    value={config.embeddingConfig.apiKey || ''}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { ...prev.embeddingConfig, apiKey: e.target.value || undefined }
+                    }))}
+                    className="text-gray-100"
+                  />
+                </div>
+              </div>
+            )}
+
             {config.embeddingConfig.model === 'local' && (
               <div className="space-y-2">
                 <label className="text-sm font-medium">Local Model</label>
@@ -353,6 +1698,204 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
                 </p>
               </div>
             )}
+
+            {config.embeddingConfig.model === 'local' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Pooling</label>
+                  <Select
+                    value={config.embeddingConfig.pooling || 'mean'}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { 
+                        ...prev.embeddingConfig, 
+                        pooling: e.target.value as 'mean' | 'cls' 
+                      }
+                    }))}
+                    options={[
+                      { value: 'mean', label: 'Mean (sentence-transformers models)' },
+                      { value: 'cls', label: 'CLS token (e.g. BGE)' }
+                    ]}
+                    className="text-gray-100"
+                  />
+                </div>
+                <label className="flex items-center space-x-2 cursor-pointer mt-7">
+                  <input
+                    type="checkbox"
+                    checked={config.embeddingConfig.normalize !== false}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { ...prev.embeddingConfig, normalize: e.target.checked }
+                    }))}
+                    className="rounded"
+                  />
+                  <span className="text-sm">Normalize vectors to unit length</span>
+                </label>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Query Prefix (optional)</label>
+                <Input
+                  value={config.embeddingConfig.queryPrefix ?? ''}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    embeddingConfig: { ...prev.embeddingConfig, queryPrefix: e.target.value || undefined }
+                  }))}
+                  placeholder="query: "
+                  className="text-gray-100"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Passage Prefix (optional)</label>
+                <Input
+                  value={config.embeddingConfig.passagePrefix ?? ''}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    embeddingConfig: { ...prev.embeddingConfig, passagePrefix: e.target.value || undefined }
+                  }))}
+                  placeholder="passage: "
+                  className="text-gray-100"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Instruction-tuned models such as E5 and BGE expect queries and documents to be marked; 
+              include the trailing space
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Batch Size</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={config.embeddingConfig.batchSize ?? ''}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    embeddingConfig: { 
+                      ...prev.embeddingConfig, 
+                      batchSize: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                    }
+                  }))}
+                  placeholder={config.embeddingConfig.model === 'openai' ? '100' : '32'}
+                  className="text-gray-100"
+                />
+                <p className="text-xs text-gray-500">
+                  Texts embedded per request (or per local batch)
+                </p>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Concurrency</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={config.embeddingConfig.concurrency ?? ''}
+                  onChange={(e) => setConfig(prev => ({ 
+                    ...prev, 
+                    embeddingConfig: { 
+                      ...prev.embeddingConfig, 
+                      concurrency: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                    }
+                  }))}
+                  placeholder={{ openai: '4', 'openai-compatible': '2', local: '1' }[config.embeddingConfig.model]}
+                  className="text-gray-100"
+                />
+                <p className="text-xs text-gray-500">
+                  Batches in flight at once
+                </p>
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.embeddingConfig.cache !== false}
+                onChange={(e) => setConfig(prev => ({ 
+                  ...prev, 
+                  embeddingConfig: { ...prev.embeddingConfig, cache: e.target.checked }
+                }))}
+                className="rounded"
+              />
+              <span className="text-sm">Cache embeddings on disk (reruns over unchanged text skip the model)</span>
+            </label>
+
+            {config.embeddingConfig.model !== 'local' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Max Retries</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={config.embeddingConfig.retry?.maxRetries ?? ''}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { 
+                        ...prev.embeddingConfig, 
+                        retry: { 
+                          ...prev.embeddingConfig.retry, 
+                          maxRetries: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                        }
+                      }
+                    }))}
+                    placeholder="5"
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-500">
+                    429s, 5xx and network errors back off exponentially with jitter
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Requests / Minute</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={config.embeddingConfig.rateLimit?.requestsPerMinute ?? ''}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { 
+                        ...prev.embeddingConfig, 
+                        rateLimit: { 
+                          ...prev.embeddingConfig.rateLimit, 
+                          requestsPerMinute: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                        }
+                      }
+                    }))}
+                    placeholder="Unlimited"
+                    className="text-gray-100"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Tokens / Minute</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={config.embeddingConfig.rateLimit?.tokensPerMinute ?? ''}
+                    onChange={(e) => setConfig(prev => ({ 
+                      ...prev, 
+                      embeddingConfig: { 
+                        ...prev.embeddingConfig, 
+                        rateLimit: { 
+                          ...prev.embeddingConfig.rateLimit, 
+                          tokensPerMinute: e.target.value === '' ? undefined : parseInt(e.target.value, 10) 
+                        }
+                      }
+                    }))}
+                    placeholder="Unlimited"
+                    className="text-gray-100"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Estimated at ~4 characters per token
+                  </p>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -378,7 +1921,7 @@ export function TestConfiguration({ tableInfo, onConfigurationComplete, onBack }
             </Button>
             <p className="text-xs text-gray-500 mt-2 text-center">
               This will test {config.selectedColumns.length > 0 ? 
-                `${Math.pow(2, config.selectedColumns.length) - 1} column combinations` : 
+                `${isExhaustive ? '' : 'at most '}${estimateCombinations()} column combinations` : 
                 '0 combinations'
               } using the selected configuration
             </p>
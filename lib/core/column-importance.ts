@@ -0,0 +1,82 @@
+/**
+ * Attributes combination scores to individual columns using Shapley values
+ * and average marginal gains over the evaluated subsets.
+ */
+
+import { ColumnCombination } from '../embeddings/embedding-generator';
+import { mean } from './statistics';
+
+export interface ColumnImportance {
+  column: string;
+  shapleyValue: number;
+  averageMarginalGain: number;
+  comparisons: number; // Evaluated (S, S + column) pairs behind the marginal gain
+}
+
+export interface ColumnImportanceSummary {
+  columns: ColumnImportance[]; // Ranked by Shapley value, highest first
+  complete: boolean; // False when some subsets were not evaluated and values are approximate
+  coverage: number; // Share of the 2^n - 1 subsets that were evaluated
+}
+
+const subsetKey = (columns: string[]) => [...columns].sort().join('\u0000');
+
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+export function computeColumnImportance(
+  scoredCombinations: Array<{ combination: ColumnCombination; score: number }>
+): ColumnImportanceSummary {
+  const columns = [...new Set(scoredCombinations.flatMap(entry => entry.combination.columns))];
+  const n = columns.length;
+
+  // The empty set scores 0, so every singleton's gain is its own score
+  const values = new Map<string, number>([[subsetKey([]), 0]]);
+  for (const entry of scoredCombinations) {
+    values.set(subsetKey(entry.combination.columns), entry.score);
+  }
+
+  const totalSubsets = Math.pow(2, n) - 1;
+  const coverage = totalSubsets > 0 ? (values.size - 1) / totalSubsets : 0;
+
+  const importance = columns.map(column => {
+    let weightedGain = 0;
+    let totalWeight = 0;
+    const marginalGains: number[] = [];
+
+    // Pair every evaluated subset containing the column with the same subset without it
+    for (const entry of scoredCombinations) {
+      if (!entry.combination.columns.includes(column)) continue;
+
+      const subset = entry.combination.columns.filter(col => col !== column);
+      const without = values.get(subsetKey(subset));
+      if (without === undefined) continue;
+
+      const gain = entry.score - without;
+      const weight = (factorial(subset.length) * factorial(n - subset.length - 1)) / factorial(n);
+      weightedGain += weight * gain;
+      totalWeight += weight;
+
+      if (subset.length > 0) marginalGains.push(gain);
+    }
+
+    return {
+      column,
+      // Renormalize over the evaluated pairs so partial searches still give comparable values
+      shapleyValue: totalWeight > 0 ? weightedGain / totalWeight : 0,
+      averageMarginalGain: mean(marginalGains),
+      comparisons: marginalGains.length
+    };
+  });
+
+  importance.sort((a, b) => b.shapleyValue - a.shapleyValue);
+
+  return {
+    columns: importance,
+    complete: coverage === 1,
+    coverage
+  };
+}
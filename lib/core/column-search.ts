@@ -0,0 +1,216 @@
+import { ColumnCombination, EmbeddingGenerator } from '../embeddings/embedding-generator';
+
+export type SearchStrategy = 'exhaustive' | 'greedy-forward' | 'backward-elimination' | 'beam';
+
+export interface ColumnSearchConfig {
+  strategy: SearchStrategy;
+  budget?: number; // Maximum number of combinations evaluated
+  beamWidth?: number; // Beam search only; defaults to 3
+  maxExhaustiveColumns?: number; // Exhaustive only; defaults to 5
+}
+
+export interface SearchStep {
+  step: number;
+  combination: ColumnCombination;
+  score: number;
+}
+
+export interface ColumnSearchSummary {
+  strategy: SearchStrategy;
+  budget?: number;
+  evaluatedCombinations: number;
+  budgetExhausted: boolean;
+  droppedColumns: string[]; // Selected columns the strategy never considered
+  steps: SearchStep[]; // The path the search took, best combination per step
+}
+
+// Returns the combination's score, or null when evaluation failed
+export type CombinationEvaluator = (combination: ColumnCombination) => Promise<number | null>;
+
+export const DEFAULT_MAX_EXHAUSTIVE_COLUMNS = 5;
+
+export class ColumnSearch {
+  private config: ColumnSearchConfig;
+  private embeddingGenerator: EmbeddingGenerator;
+  private columnOrder: string[] = [];
+  private evaluated = new Map<string, number | null>();
+  private budgetExhausted = false;
+
+  constructor(config: ColumnSearchConfig, embeddingGenerator: EmbeddingGenerator) {
+    this.config = config;
+    this.embeddingGenerator = embeddingGenerator;
+  }
+
+  async run(columns: string[], evaluate: CombinationEvaluator): Promise<ColumnSearchSummary> {
+    this.columnOrder = columns;
+    this.evaluated.clear();
+    this.budgetExhausted = false;
+
+    let droppedColumns: string[] = [];
+    let steps: SearchStep[];
+
+    switch (this.config.strategy) {
+      case 'greedy-forward':
+        steps = await this.greedyForward(columns, evaluate);
+        break;
+      case 'backward-elimination':
+        steps = await this.backwardElimination(columns, evaluate);
+        break;
+      case 'beam':
+        steps = await this.beamSearch(columns, evaluate);
+        break;
+      default: {
+        const maxColumns = this.config.maxExhaustiveColumns ?? DEFAULT_MAX_EXHAUSTIVE_COLUMNS;
+        droppedColumns = columns.slice(maxColumns);
+        if (droppedColumns.length > 0) {
+          console.warn(`Exhaustive search is limited to ${maxColumns} columns - dropped: ${droppedColumns.join(', ')}`);
+        }
+        steps = await this.exhaustive(columns.slice(0, maxColumns), evaluate);
+      }
+    }
+
+    return {
+      strategy: this.config.strategy,
+      budget: this.config.budget,
+      evaluatedCombinations: this.evaluated.size,
+      budgetExhausted: this.budgetExhausted,
+      droppedColumns,
+      steps
+    };
+  }
+
+  createCombination(columns: string[]): ColumnCombination {
+    // Keep the caller's column order so the same set always gets the same name
+    const ordered = this.columnOrder.filter(col => columns.includes(col));
+    return {
+      columns: ordered,
+      name: ordered.join(' + ')
+    };
+  }
+
+  private hasBudget(): boolean {
+    if (this.config.budget === undefined) return true;
+    if (this.evaluated.size < this.config.budget) return true;
+    this.budgetExhausted = true;
+    return false;
+  }
+
+  // Evaluates each combination at most once; null means skipped or failed
+  private async score(columns: string[], evaluate: CombinationEvaluator): Promise<number | null> {
+    const combination = this.createCombination(columns);
+
+    if (this.evaluated.has(combination.name)) {
+      return this.evaluated.get(combination.name) ?? null;
+    }
+    if (!this.hasBudget()) {
+      return null;
+    }
+
+    const score = await evaluate(combination);
+    this.evaluated.set(combination.name, score);
+    return score;
+  }
+
+  private async exhaustive(columns: string[], evaluate: CombinationEvaluator): Promise<SearchStep[]> {
+    const bestBySize = new Map<number, SearchStep>();
+
+    for (const combination of this.embeddingGenerator.generateColumnCombinations(columns)) {
+      const size = combination.columns.length;
+      const score = await this.score(combination.columns, evaluate);
+      const best = bestBySize.get(size);
+      if (score !== null && (!best || score > best.score)) {
+        bestBySize.set(size, { step: size, combination: this.createCombination(combination.columns), score });
+      }
+    }
+
+    return Array.from(bestBySize.values());
+  }
+
+  private async greedyForward(columns: string[], evaluate: CombinationEvaluator): Promise<SearchStep[]> {
+    const steps: SearchStep[] = [];
+    let selected: string[] = [];
+    let bestScore = -Infinity;
+
+    while (selected.length < columns.length && this.hasBudget()) {
+      let stepBest: { columns: string[]; score: number } | null = null;
+
+      for (const column of columns.filter(col => !selected.includes(col))) {
+        const candidate = [...selected, column];
+        const score = await this.score(candidate, evaluate);
+        if (score !== null && (!stepBest || score > stepBest.score)) {
+          stepBest = { columns: candidate, score };
+        }
+      }
+
+      // Stop once adding any remaining column no longer helps
+      if (!stepBest || stepBest.score <= bestScore) break;
+
+      selected = stepBest.columns;
+      bestScore = stepBest.score;
+      steps.push({ step: steps.length + 1, combination: this.createCombination(selected), score: bestScore });
+    }
+
+    return steps;
+  }
+
+  private async backwardElimination(columns: string[], evaluate: CombinationEvaluator): Promise<SearchStep[]> {
+    const steps: SearchStep[] = [];
+    let selected = [...columns];
+    const initialScore = await this.score(selected, evaluate);
+    if (initialScore === null) return steps;
+
+    let bestScore = initialScore;
+    steps.push({ step: 1, combination: this.createCombination(selected), score: bestScore });
+
+    while (selected.length > 1 && this.hasBudget()) {
+      let stepBest: { columns: string[]; score: number } | null = null;
+
+      for (const column of selected) {
+        const candidate = selected.filter(col => col !== column);
+        const score = await this.score(candidate, evaluate);
+        if (score !== null && (!stepBest || score > stepBest.score)) {
+          stepBest = { columns: candidate, score };
+        }
+      }
+
+      // Keep removing columns while that does not hurt the score
+      if (!stepBest || stepBest.score < bestScore) break;
+
+      selected = stepBest.columns;
+      bestScore = stepBest.score;
+      steps.push({ step: steps.length + 1, combination: this.createCombination(selected), score: bestScore });
+    }
+
+    return steps;
+  }
+
+  private async beamSearch(columns: string[], evaluate: CombinationEvaluator): Promise<SearchStep[]> {
+    const beamWidth = this.config.beamWidth ?? 3;
+    const steps: SearchStep[] = [];
+    let beam: string[][] = [[]];
+
+    for (let size = 1; size <= columns.length && this.hasBudget(); size++) {
+      const candidates = new Map<string, string[]>();
+      for (const member of beam) {
+        for (const column of columns.filter(col => !member.includes(col))) {
+          const candidate = this.createCombination([...member, column]);
+          candidates.set(candidate.name, candidate.columns);
+        }
+      }
+
+      const scored: { columns: string[]; score: number }[] = [];
+      for (const candidate of candidates.values()) {
+        const score = await this.score(candidate, evaluate);
+        if (score !== null) scored.push({ columns: candidate, score });
+      }
+
+      if (scored.length === 0) break;
+
+      scored.sort((a, b) => b.score - a.score);
+      beam = scored.slice(0, beamWidth).map(entry => entry.columns);
+      steps.push({ step: size, combination: this.createCombination(scored[0].columns), score: scored[0].score });
+    }
+
+    return steps;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Seeded train/test splitting so every column combination in an experiment
+ * is scored against the same, reproducible test set.
+ */
+
+export interface DataSplit {
+  seed: number;
+  trainingData: Record<string, any>[];
+  testingData: Record<string, any>[];
+  trainingIndices: number[];
+  testingIndices: number[];
+  fold?: number;
+  repeat?: number;
+  testStart?: string; // Time split only: ISO timestamp where the test period begins
+  undatedRows?: number; // Time split only: rows left out because their date is missing
+  strata?: StratumCount[]; // Stratified split only
+}
+
+export interface StratumCount {
+  value: string; // Stratum value; missing values are grouped as "(empty)"
+  total: number;
+  training: number;
+  testing: number;
+}
+
+export interface SplitSummary {
+  seed: number;
+  fold?: number;
+  repeat?: number;
+  totalRows: number;
+  trainingSize: number;
+  testingSize: number;
+  testingIndices: number[];
+  testStart?: string;
+  undatedRows?: number;
+  strata?: StratumCount[];
+}
+
+// Mulberry32 - small, fast PRNG that is fully determined by its 32-bit seed
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Fisher-Yates shuffle; unlike sort(() => Math.random() - 0.5) every permutation is equally likely
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = createSeededRandom(seed);
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
+
+export function splitData(
+  data: Record<string, any>[],
+  trainingRatio: number,
+  seed: number
+): DataSplit {
+  const order = seededShuffle(data.map((_, index) => index), seed);
+  const splitIndex = Math.floor(order.length * trainingRatio);
+  const trainingIndices = order.slice(0, splitIndex);
+  const testingIndices = order.slice(splitIndex);
+
+  return {
+    seed,
+    trainingData: trainingIndices.map(index => data[index]),
+    testingData: testingIndices.map(index => data[index]),
+    trainingIndices,
+    testingIndices
+  };
+}
+
+export interface TimeSplitConfig {
+  column: string; // Date or timestamp column that orders the rows
+  cutoff?: string; // Rows at or after this date are the test set; defaults to the most recent fraction
+}
+
+function parseTimestamp(value: any): number {
+  if (value === null || value === undefined || value === '') return NaN;
+  return value instanceof Date ? value.getTime() : Date.parse(String(value));
+}
+
+// Trains on the past and tests on the future. Rows sharing the boundary timestamp all go
+// to the test set so no test-period row is seen in training; undated rows are left out.
+export function timeSplitData(
+  data: Record<string, any>[],
+  trainingRatio: number,
+  timeSplit: TimeSplitConfig,
+  seed: number
+): DataSplit {
+  const dated = data
+    .map((row, index) => ({ index, time: parseTimestamp(row[timeSplit.column]) }))
+    .filter(entry => !Number.isNaN(entry.time))
+    .sort((a, b) => a.time - b.time || a.index - b.index);
+
+  let splitIndex: number;
+  if (timeSplit.cutoff) {
+    const cutoff = parseTimestamp(timeSplit.cutoff);
+    splitIndex = dated.findIndex(entry => entry.time >= cutoff);
+    if (splitIndex === -1) splitIndex = dated.length;
+  } else {
+    splitIndex = Math.floor(dated.length * trainingRatio);
+    while (splitIndex > 0 && splitIndex < dated.length && dated[splitIndex - 1].time === dated[splitIndex].time) {
+      splitIndex--;
+    }
+  }
+
+  const trainingIndices = dated.slice(0, splitIndex).map(entry => entry.index);
+  const testingIndices = dated.slice(splitIndex).map(entry => entry.index);
+
+  return {
+    seed,
+    trainingData: trainingIndices.map(index => data[index]),
+    testingData: testingIndices.map(index => data[index]),
+    trainingIndices,
+    testingIndices,
+    testStart: splitIndex < dated.length ? new Date(dated[splitIndex].time).toISOString() : undefined,
+    undatedRows: data.length - dated.length
+  };
+}
+
+export const EMPTY_STRATUM = '(empty)';
+
+function stratumKey(value: any): string {
+  if (value === null || value === undefined || value === '') return EMPTY_STRATUM;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Splits each stratum by the training ratio so every category is represented on both
+// sides; a stratum with a single row goes to training, where it can still be retrieved
+export function stratifiedSplitData(
+  data: Record<string, any>[],
+  trainingRatio: number,
+  column: string,
+  seed: number
+): DataSplit {
+  const groups = new Map<string, number[]>();
+  data.forEach((row, index) => {
+    const key = stratumKey(row[column]);
+    let group = groups.get(key);
+    if (!group) groups.set(key, group = []);
+    group.push(index);
+  });
+
+  const trainingIndices: number[] = [];
+  const testingIndices: number[] = [];
+  const strata: StratumCount[] = [];
+
+  // Sorted keys keep the result independent of row order for a given seed
+  [...groups.keys()].sort().forEach((key, stratumIndex) => {
+    const order = seededShuffle(groups.get(key)!, (seed + stratumIndex) >>> 0);
+    const trainingCount = order.length === 1 ? 1 : Math.max(1, Math.floor(order.length * trainingRatio));
+
+    trainingIndices.push(...order.slice(0, trainingCount));
+    testingIndices.push(...order.slice(trainingCount));
+    strata.push({
+      value: key,
+      total: order.length,
+      training: trainingCount,
+      testing: order.length - trainingCount
+    });
+  });
+
+  return {
+    seed,
+    trainingData: trainingIndices.map(index => data[index]),
+    testingData: testingIndices.map(index => data[index]),
+    trainingIndices,
+    testingIndices,
+    strata: strata.sort((a, b) => b.total - a.total)
+  };
+}
+
+// Each repeat reshuffles with its own derived seed, then partitions into k folds
+// whose sizes differ by at most one row
+export function createKFoldSplits(
+  data: Record<string, any>[],
+  folds: number,
+  seed: number,
+  repeats: number = 1
+): DataSplit[] {
+  const splits: DataSplit[] = [];
+
+  for (let repeat = 0; repeat < repeats; repeat++) {
+    const repeatSeed = (seed + repeat) >>> 0;
+    const order = seededShuffle(data.map((_, index) => index), repeatSeed);
+
+    for (let fold = 0; fold < folds; fold++) {
+      const start = Math.floor((fold * order.length) / folds);
+      const end = Math.floor(((fold + 1) * order.length) / folds);
+      const testingIndices = order.slice(start, end);
+      const trainingIndices = [...order.slice(0, start), ...order.slice(end)];
+
+      splits.push({
+        seed: repeatSeed,
+        trainingData: trainingIndices.map(index => data[index]),
+        testingData: testingIndices.map(index => data[index]),
+        trainingIndices,
+        testingIndices,
+        fold,
+        repeat
+      });
+    }
+  }
+
+  return splits;
+}
+
+export function summarizeSplit(split: DataSplit): SplitSummary {
+  return {
+    seed: split.seed,
+    fold: split.fold,
+    repeat: split.repeat,
+    totalRows: split.trainingData.length + split.testingData.length,
+    trainingSize: split.trainingData.length,
+    testingSize: split.testingData.length,
+    testingIndices: split.testingIndices,
+    testStart: split.testStart,
+    undatedRows: split.undatedRows,
+    strata: split.strata
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Finds test rows that also appear, verbatim or nearly so, on the training side.
+ * Such rows let retrieval "find" the answer it was asked about and inflate scores.
+ */
+
+export interface DuplicateMatch {
+  rowIndex: number;
+  referenceIndex: number;
+  similarity: number; // 1 for exact duplicates, shingle Jaccard otherwise
+}
+
+export interface DuplicateReport {
+  checkedRows: number;
+  exactDuplicates: number;
+  nearDuplicates: number;
+  threshold: number;
+  examples: DuplicateMatch[]; // First few matches, for inspection
+}
+
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.9;
+export const MAX_DUPLICATE_EXAMPLES = 10;
+
+// Shingles shared by more rows than this are too common to point at a duplicate
+const MAX_SHINGLE_POSTINGS = 100;
+const SHINGLE_SIZE = 3;
+
+function rowText(row: Record<string, any>, columns: string[]): string {
+  return columns
+    .map(col => row[col])
+    .filter(value => value !== null && value !== undefined)
+    .map(value => (typeof value === 'object' ? JSON.stringify(value) : String(value)))
+    .join(' ')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function shingles(text: string): Set<string> {
+  const words = text.split(' ');
+  if (words.length <= SHINGLE_SIZE) return new Set([text]);
+
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+}
+
+/**
+ * Compares every row against the reference rows on the given columns.
+ * Pass the same array twice to find duplicates within one table.
+ */
+export function detectDuplicates(
+  rows: Record<string, any>[],
+  reference: Record<string, any>[],
+  columns: string[],
+  threshold: number = DEFAULT_NEAR_DUPLICATE_THRESHOLD
+): DuplicateReport {
+  const sameRows = rows === reference;
+  const referenceTexts = reference.map(row => rowText(row, columns));
+  const referenceShingles = referenceTexts.map(shingles);
+
+  const exactIndex = new Map<string, number[]>();
+  const shingleIndex = new Map<string, number[]>();
+  referenceTexts.forEach((text, index) => {
+    if (!text) return;
+    let exact = exactIndex.get(text);
+    if (!exact) exactIndex.set(text, exact = []);
+    exact.push(index);
+    for (const shingle of referenceShingles[index]) {
+      const postings = shingleIndex.get(shingle) || [];
+      postings.push(index);
+      shingleIndex.set(shingle, postings);
+    }
+  });
+
+  const report: DuplicateReport = {
+    checkedRows: 0,
+    exactDuplicates: 0,
+    nearDuplicates: 0,
+    threshold,
+    examples: []
+  };
+  const addExample = (match: DuplicateMatch) => {
+    if (report.examples.length < MAX_DUPLICATE_EXAMPLES) report.examples.push(match);
+  };
+
+  rows.forEach((row, rowIndex) => {
+    const text = sameRows ? referenceTexts[rowIndex] : rowText(row, columns);
+    if (!text) return;
+    report.checkedRows++;
+
+    const exact = (exactIndex.get(text) || []).filter(index => !(sameRows && index === rowIndex));
+    if (exact.length > 0) {
+      report.exactDuplicates++;
+      addExample({ rowIndex, referenceIndex: exact[0], similarity: 1 });
+      return;
+    }
+
+    // Candidates share at least one uncommon shingle; each is then scored exactly
+    const ownShingles = sameRows ? referenceShingles[rowIndex] : shingles(text);
+    const candidates = new Set<number>();
+    for (const shingle of ownShingles) {
+      const postings = shingleIndex.get(shingle);
+      if (!postings || postings.length > MAX_SHINGLE_POSTINGS) continue;
+      postings.forEach(index => {
+        if (!(sameRows && index === rowIndex)) candidates.add(index);
+      });
+    }
+
+    let best: DuplicateMatch | null = null;
+    for (const index of candidates) {
+      const similarity = jaccard(ownShingles, referenceShingles[index]);
+      if (!best || similarity > best.similarity) {
+        best = { rowIndex, referenceIndex: index, similarity };
+      }
+    }
+
+    if (best && best.similarity >= threshold) {
+      report.nearDuplicates++;
+      addExample(best);
+    }
+  });
+
+  return report;
+}
@@ -0,0 +1,69 @@
+/**
+ * Gold query sets kept apart from the corpus: each query names the corpus rows
+ * that answer it, so relevance comes from an explicit mapping instead of a self-split.
+ */
+
+export type DataSourceMode = 'self-split' | 'corpus-queries';
+
+export interface QuerySetConfig {
+  source: 'table' | 'jsonl';
+  tableName?: string; // source 'table'
+  jsonl?: string; // source 'jsonl': one JSON object per line
+  queryField: string;
+  relevantIdsField: string; // Corpus ids as a single id, an array or a comma-separated string
+  answerField?: string; // Expected answer; defaults to the first relevant row's y value
+}
+
+export interface GoldQuery {
+  index: number;
+  query: string;
+  relevantIds: string[];
+  expectedAnswer?: any;
+  record: Record<string, any>;
+}
+
+export function parseJsonl(text: string): Record<string, any>[] {
+  const records: Record<string, any>[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let value: any;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1} of the query set`);
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Line ${index + 1} of the query set is not a JSON object`);
+    }
+    records.push(value);
+  });
+
+  return records;
+}
+
+export function parseRelevantIds(value: any): string[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.map(id => String(id).trim()).filter(Boolean);
+
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    try {
+      return parseRelevantIds(JSON.parse(text));
+    } catch {
+      // Not a JSON array; fall through to comma splitting
+    }
+  }
+  return text.split(',').map(id => id.trim()).filter(Boolean);
+}
+
+export function toGoldQueries(records: Record<string, any>[], config: QuerySetConfig): GoldQuery[] {
+  return records.map((record, index) => ({
+    index,
+    query: record[config.queryField],
+    relevantIds: parseRelevantIds(record[config.relevantIdsField]),
+    expectedAnswer: config.answerField ? record[config.answerField] : undefined,
+    record
+  }));
+}
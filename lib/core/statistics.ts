@@ -0,0 +1,15 @@
+// Small descriptive statistics helpers shared by the experiment summaries
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Sample standard deviation (n - 1); a single observation has no spread
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const avg = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
@@ -1,40 +1,179 @@
-import { DatabaseConnection, TableInfo } from '../database/connection';
-import { EmbeddingGenerator, ColumnCombination, TrainingData, EmbeddingConfig } from '../embeddings/embedding-generator';
-import { SQLMetricCalculator, SQLMetricResult } from '../metrics/sql-metric';
-import { BRDRMetricCalculator, BRDRMetricResult } from '../metrics/brdr-metric';
+import { DatabaseConnection, TableInfo, TableLoadResult } from '../database/connection';
+import { RowFilter, TEMPORAL_TYPES, describeRowFilter, validateRowFilters } from '../database/row-filters';
+import {
+  EmbeddingGenerator,
+  ColumnCombination,
+  TrainingData,
+  EmbeddingConfig,
+  EmbeddingResult,
+  ContextTemplate,
+  FusionConfig,
+  HybridConfig,
+  RetrievalMatch,
+  RetrievalMode,
+  RetrieverType
+} from '../embeddings/embedding-generator';
+import { ChunkingConfig } from '../embeddings/chunker';
+import { CrossEncoderReranker, DEFAULT_RERANK_CANDIDATES, RerankerConfig } from '../embeddings/reranker';
+import { AnswerGenerator, GenerationConfig, buildPrompt, createAnswerGenerator } from '../generation/answer-generator';
+import { MetricCalculator, MetricResult } from '../metrics/metric-calculator';
+import { metricRegistry } from '../metrics/metric-registry';
+import { RetrievalMetricCalculator, RetrievalMetricResult, RetrievalMetricSummary } from '../metrics/retrieval-metrics';
+import {
+  DataSplit,
+  SplitSummary,
+  StratumCount,
+  TimeSplitConfig,
+  createKFoldSplits,
+  generateSeed,
+  splitData,
+  stratifiedSplitData,
+  summarizeSplit,
+  timeSplitData
+} from './data-split';
+import { mean, standardDeviation } from './statistics';
+import { DEFAULT_NEAR_DUPLICATE_THRESHOLD, DuplicateReport, detectDuplicates } from './leakage';
+import { DataSourceMode, QuerySetConfig, parseJsonl, parseRelevantIds, toGoldQueries } from './query-set';
+import { ColumnImportanceSummary, computeColumnImportance } from './column-importance';
+import { ColumnSearch, ColumnSearchSummary, DEFAULT_MAX_EXHAUSTIVE_COLUMNS, SearchStrategy } from './column-search';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface TestConfiguration {
   tableId: string;
-  tableName: string;
+  tableName: string; // The corpus table in corpus-queries mode
+  filters?: RowFilter[]; // Restrict the experiment to rows matching every filter
+  dataSource?: DataSourceMode; // Defaults to self-split: one table split into train and test
+  querySet?: QuerySetConfig; // Corpus-queries mode: gold queries with relevant corpus ids
   selectedColumns: string[];
+  searchStrategy?: SearchStrategy; // Defaults to exhaustive enumeration
+  searchBudget?: number; // Maximum number of combinations evaluated
+  beamWidth?: number; // Beam search only; defaults to 3
   yColumn: string;
-  queryColumn: string;
-  answerColumn: string;
+  queryColumn: string; // Self-split only; query sets name their own fields
+  answerColumn: string; // Self-split only
   embeddingConfig: EmbeddingConfig;
-  metricType: 'sql' | 'brdr';
+  contextTemplate?: ContextTemplate; // How each row is rendered into the embedded text
+  chunking?: ChunkingConfig; // Split long contexts into chunks; hits map back to their rows
+  chunkSizes?: number[]; // Chunk size sweep: every combination is tested once per size
+  retrievalMode?: RetrievalMode; // Defaults to one concatenated embedding per row
+  fusion?: FusionConfig; // Field-level mode only; defaults to an unweighted weighted-sum
+  retriever?: RetrieverType; // Defaults to vector-only cosine similarity
+  hybrid?: HybridConfig; // Hybrid retriever only; defaults to alpha blending at 0.5
+  reranker?: RerankerConfig; // Optional cross-encoder stage over the first-stage candidates
+  generation?: GenerationConfig; // Optional answer synthesis; metrics then score the completion
+  metricType: string; // Primary metric id, drives averageScore and best/worst
+  metricTypes?: string[]; // All metric ids to score; the primary metric is always included
+  metricConfigs?: Record<string, Record<string, any>>; // Per-metric config, keyed by metric id
+  topK?: number; // Candidates retrieved per query for ranking metrics; defaults to 5
+  relevanceMode?: 'answer-equivalence'; // Self-split relevance; query sets always use their relevance mapping
+  idColumn?: string; // Row identity column, required for query sets
   trainingRatio: number; // 0.8 for 80/20 split
+  splitStrategy?: 'random' | 'time' | 'stratified'; // Defaults to a seeded random split
+  timeSplit?: TimeSplitConfig; // Time split only: hold out the most recent rows or everything after a cutoff
+  stratifyColumn?: string; // Stratified split only: each value of this column is split by trainingRatio
+  sampleSize?: number; // Test on a seeded random sample of the table instead of every row
+  seed?: number; // Random seed for the train/test split; generated if omitted
+  nearDuplicateThreshold?: number; // Shingle Jaccard at which rows count as near-duplicates; defaults to 0.9
+  evaluationMode?: 'holdout' | 'cross-validation'; // Defaults to a single holdout split
+  crossValidation?: {
+    folds: number;
+    repeats?: number; // Each repeat reshuffles before folding; defaults to 1
+  };
   testName: string;
 }
 
+export interface RetrievedCandidate {
+  rank: number; // 1-based
+  rowId: string;
+  context: string;
+  similarity: number;
+  fieldSimilarities?: Record<string, number>;
+  vectorScore?: number;
+  lexicalScore?: number;
+  chunkIndex?: number; // Best-matching chunk of the row when chunking is on
+  rerankScore?: number;
+  retrievalRank?: number; // First-stage rank when the candidate was reranked
+  relevant: boolean;
+}
+
+export interface QueryRecord {
+  testIndex: number;
+  rowId?: string; // Test row identity when an ID column is configured
+  query: string;
+  expectedAnswer: any;
+  actualAnswer: any;
+  retrievedRowId: string; // Top-ranked candidate, the one the answer metrics score
+  retrievedContext: string;
+  firstRelevantRank: number | null; // Rank of the first relevant candidate (not necessarily the top one), null when none made the top K
+  similarity: number;
+  score: number;
+  scores: Record<string, number>;
+  metricResults: Record<string, MetricResult>;
+  retrievalResult: RetrievalMetricResult;
+  firstStageRetrievalResult?: RetrievalMetricResult; // Ranking before reranking
+  candidates: RetrievedCandidate[];
+  generation?: GenerationRecord;
+  fold?: number;
+  repeat?: number;
+}
+
+export interface GenerationRecord {
+  generator: string;
+  prompt: string;
+  completion: string;
+  retrievedAnswer: any; // Top candidate's y value, what would have been scored without generation
+}
+
+export interface StageTimings {
+  retrievalTime: number; // ms spent in first-stage retrieval, summed over queries
+  rerankTime: number; // ms spent reranking; 0 when reranking is off
+  generationTime: number; // ms spent generating answers; 0 when generation is off
+  averageRetrievalTime: number;
+  averageRerankTime: number;
+  averageGenerationTime: number;
+  rerankModel?: string;
+  generator?: string;
+}
+
+export interface FoldScore {
+  fold: number;
+  repeat: number;
+  averageScore: number;
+  totalTests: number;
+}
+
+export interface CrossValidationResult {
+  foldScores: FoldScore[];
+  mean: number;
+  stdDev: number;
+}
+
 export interface TestResult {
   id: string;
   testName: string;
   timestamp: Date;
   configuration: TestConfiguration;
   combination: ColumnCombination;
-  results: {
-    sql?: SQLMetricResult[];
-    brdr?: BRDRMetricResult[];
-  };
+  chunkSize?: number; // Set when chunking is on
+  results: Record<string, MetricResult[]>; // Keyed by metric id
+  queries: QueryRecord[];
   averageScore: number;
+  metricScores: Record<string, number>;
   totalTests: number;
   processingTime: number;
   embeddingStats: {
     trainingEmbeddings: number;
     testQueries: number;
     averageSimilarity: number;
+    cacheHits: number; // Embeddings served from the on-disk cache during this test
+    cacheMisses: number;
+    failedRows: number; // Training rows dropped because embedding failed after all retries
+    failedQueries: number; // Test queries that could not be retrieved or scored
   };
+  retrievalMetrics: RetrievalMetricSummary;
+  firstStageRetrievalMetrics?: RetrievalMetricSummary; // Same queries scored before reranking
+  timings: StageTimings;
+  crossValidation?: CrossValidationResult;
 }
 
 export interface TestSummary {
@@ -46,12 +185,18 @@ export interface TestSummary {
   worstResult: any;
 }
 
+export type DatasetSummary = Omit<TableLoadResult, 'rows'> & { tableName: string };
+
 export interface ExperimentResults {
   experimentId: string;
   testName: string;
   timestamp: Date;
   configuration: TestConfiguration;
   allResults: TestResult[];
+  dataset: DatasetSummary;
+  splits: SplitSummary[];
+  search: ColumnSearchSummary;
+  columnImportance: ColumnImportanceSummary;
   summary: {
     bestCombination: ColumnCombination;
     bestScore: number;
@@ -59,15 +204,41 @@ export interface ExperimentResults {
     worstScore: number;
     averageScore: number;
     totalCombinations: number;
+    metricRankings: Record<string, Array<{
+      rank: number;
+      combination: ColumnCombination;
+      chunkSize?: number;
+      score: number;
+    }>>;
+    chunkSweep?: Array<{
+      chunkSize: number;
+      bestScore: number;
+      averageScore: number;
+      combinations: number;
+    }>;
+    crossValidation?: {
+      folds: number;
+      repeats: number;
+      bestScoreStdDev: number;
+      worstScoreStdDev: number;
+      averageStdDev: number;
+      combinations: Array<{
+        combination: ColumnCombination;
+        mean: number;
+        stdDev: number;
+      }>;
+    };
   };
   processingTime: number;
 }
 
+const MAX_EXACT_DUPLICATE_RATIO = 0.1;
+
 export class RAGTestingFramework {
   private db: DatabaseConnection;
   private embeddingGenerator: EmbeddingGenerator;
-  private sqlMetricCalculator: SQLMetricCalculator;
-  private brdrMetricCalculator: BRDRMetricCalculator;
+  private retrievalMetricCalculator: RetrievalMetricCalculator;
+  private reranker: CrossEncoderReranker | null = null;
 
   constructor(
     dbConnection: DatabaseConnection,
@@ -75,14 +246,25 @@ export class RAGTestingFramework {
   ) {
     this.db = dbConnection;
     this.embeddingGenerator = new EmbeddingGenerator(embeddingConfig);
-    this.sqlMetricCalculator = new SQLMetricCalculator();
-    this.brdrMetricCalculator = new BRDRMetricCalculator();
+    this.retrievalMetricCalculator = new RetrievalMetricCalculator();
   }
 
   async initialize(): Promise<void> {
     await this.embeddingGenerator.initialize();
   }
 
+  // Loads the cross-encoder on first use and reuses it while the model stays the same
+  private async getReranker(config: RerankerConfig): Promise<CrossEncoderReranker> {
+    const candidate = new CrossEncoderReranker(config);
+    if (this.reranker && this.reranker.modelName === candidate.modelName) {
+      return this.reranker;
+    }
+
+    await candidate.initialize();
+    this.reranker = candidate;
+    return candidate;
+  }
+
   async getAvailableTables(): Promise<TableInfo[]> {
     const tableNames = await this.db.getTables();
     const tableInfos: TableInfo[] = [];
@@ -104,26 +286,73 @@ export class RAGTestingFramework {
     console.log(`Starting experiment: ${config.testName}`);
     console.log(`Table: ${config.tableName}`);
     console.log(`Columns: ${config.selectedColumns.join(', ')}`);
+    if (config.filters?.length) {
+      console.log(`Filters: ${config.filters.map(describeRowFilter).join(' AND ')}`);
+    }
+
+    // Compute the split(s) once so every combination is scored on the same test sets
+    const seed = config.seed ?? generateSeed();
+    const { rows, ...dataset } = await this.loadTableData({ ...config, seed });
+    const splits = await this.createSplits({ ...config, seed }, rows);
+    console.log(`Created ${splits.length} split(s) with seed ${seed} from ${dataset.loadedRows} of ${dataset.totalRows} rows`);
+    if (splits[0].strata) {
+      console.log(`Stratified on ${config.stratifyColumn}: ${splits[0].strata.map(
+        stratum => `${stratum.value} ${stratum.training}/${stratum.testing}`
+      ).join(', ')}`);
+    }
 
-    // Generate all column combinations
-    const combinations = this.embeddingGenerator.generateColumnCombinations(config.selectedColumns);
-    console.log(`Generated ${combinations.length} column combinations`);
+    // Search the column combinations; the strategy decides which ones get evaluated
+    const strategy = config.searchStrategy ?? 'exhaustive';
+    const columnSearch = new ColumnSearch({
+      strategy,
+      budget: config.searchBudget,
+      beamWidth: config.beamWidth
+    }, this.embeddingGenerator);
+    console.log(`Searching column combinations with strategy: ${strategy}`);
 
     const allResults: TestResult[] = [];
+    const combinationScores: Array<{ combination: ColumnCombination; score: number }> = [];
 
-    for (let i = 0; i < combinations.length; i++) {
-      const combination = combinations[i];
-      console.log(`\nTesting combination ${i + 1}/${combinations.length}: ${combination.name}`);
+    // Without a sweep each combination runs once with the configured chunking (if any)
+    const chunkSizes = config.chunking && config.chunkSizes?.length
+      ? config.chunkSizes
+      : [config.chunking?.chunkSize];
 
-      try {
-        const result = await this.runSingleTest(config, combination);
-        allResults.push(result);
-        
-        console.log(`Combination "${combination.name}" - Average Score: ${result.averageScore.toFixed(3)}`);
-      } catch (error) {
-        console.error(`Failed to test combination "${combination.name}":`, error);
-        continue;
+    const search = await columnSearch.run(config.selectedColumns, async combination => {
+      console.log(`\nTesting combination ${combinationScores.length + 1}: ${combination.name}`);
+      let bestScore: number | null = null;
+
+      for (const chunkSize of chunkSizes) {
+        const testConfig: TestConfiguration = config.chunking && chunkSize !== undefined
+          ? { ...config, chunking: { ...config.chunking, chunkSize } }
+          : config;
+        const label = chunkSize !== undefined ? `${combination.name} @ ${chunkSize} words` : combination.name;
+
+        try {
+          const result = config.evaluationMode === 'cross-validation'
+            ? await this.runCrossValidatedTest(testConfig, combination, splits)
+            : await this.runSingleTest(testConfig, combination, splits[0]);
+          allResults.push(result);
+
+          console.log(`Combination "${label}" - Average Score: ${result.averageScore.toFixed(3)}`);
+          if (bestScore === null || result.averageScore > bestScore) {
+            bestScore = result.averageScore;
+          }
+        } catch (error) {
+          console.error(`Failed to test combination "${label}":`, error);
+        }
+      }
+
+      // The search and column importance see each combination at its best chunk size
+      if (bestScore !== null) {
+        combinationScores.push({ combination, score: bestScore });
       }
+      return bestScore;
+    });
+
+    console.log(`Evaluated ${search.evaluatedCombinations} column combinations`);
+    if (allResults.length === 0) {
+      throw new Error('No column combination could be evaluated');
     }
 
     // Calculate summary statistics
@@ -135,64 +364,299 @@ export class RAGTestingFramework {
       current.averageScore < worst.averageScore ? current : worst
     );
 
-    const summary = {
+    const summary: ExperimentResults['summary'] = {
       bestCombination: bestResult.combination,
       bestScore: bestResult.averageScore,
       worstCombination: worstResult.combination,
       worstScore: worstResult.averageScore,
       averageScore: scores.reduce((sum, score) => sum + score, 0) / scores.length,
-      totalCombinations: allResults.length
+      totalCombinations: allResults.length,
+      metricRankings: this.rankByMetric(allResults, this.resolveMetricTypes(config))
     };
 
+    if (config.chunking && config.chunkSizes?.length) {
+      summary.chunkSweep = config.chunkSizes.map(chunkSize => {
+        const sizeScores = allResults.filter(r => r.chunkSize === chunkSize).map(r => r.averageScore);
+        return {
+          chunkSize,
+          bestScore: sizeScores.length > 0 ? Math.max(...sizeScores) : 0,
+          averageScore: mean(sizeScores),
+          combinations: sizeScores.length
+        };
+      });
+    }
+
+    if (config.evaluationMode === 'cross-validation' && config.crossValidation) {
+      summary.crossValidation = {
+        folds: config.crossValidation.folds,
+        repeats: config.crossValidation.repeats ?? 1,
+        bestScoreStdDev: bestResult.crossValidation?.stdDev ?? 0,
+        worstScoreStdDev: worstResult.crossValidation?.stdDev ?? 0,
+        averageStdDev: mean(allResults.map(r => r.crossValidation?.stdDev ?? 0)),
+        combinations: allResults.map(r => ({
+          combination: r.combination,
+          mean: r.crossValidation?.mean ?? r.averageScore,
+          stdDev: r.crossValidation?.stdDev ?? 0
+        }))
+      };
+    }
+
     const processingTime = Date.now() - startTime;
 
     return {
       experimentId,
       testName: config.testName,
       timestamp: new Date(),
-      configuration: config,
+      configuration: { ...config, seed },
       allResults,
+      dataset: { tableName: config.tableName, ...dataset },
+      splits: splits.map(summarizeSplit),
+      search,
+      columnImportance: computeColumnImportance(combinationScores),
       summary,
       processingTime
     };
   }
 
-  async runSingleTest(config: TestConfiguration, combination: ColumnCombination): Promise<TestResult> {
-    const testId = uuidv4();
-    const startTime = Date.now();
+  async loadTableData(config: TestConfiguration): Promise<TableLoadResult> {
+    return this.db.loadTable(config.tableName, {
+      filters: config.filters,
+      sampleSize: config.sampleSize,
+      seed: config.seed
+    });
+  }
+
+  // Pass rows already loaded by loadTableData to avoid fetching the table again
+  async createSplits(config: TestConfiguration, rows?: Record<string, any>[]): Promise<DataSplit[]> {
+    const data = rows ?? (await this.loadTableData(config)).rows;
 
-    // Fetch data from the table
-    const data = await this.db.getTableData(config.tableName);
-    
     if (data.length === 0) {
       throw new Error(`No data found in table ${config.tableName}`);
     }
 
-    // Split data into training and testing
-    const shuffled = [...data].sort(() => Math.random() - 0.5);
-    const splitIndex = Math.floor(shuffled.length * config.trainingRatio);
-    const trainingData = shuffled.slice(0, splitIndex);
-    const testingData = shuffled.slice(splitIndex);
+    const seed = config.seed ?? generateSeed();
+
+    // The whole corpus is indexed and the query set is the test set
+    if (config.dataSource === 'corpus-queries' && config.querySet) {
+      const queries = await this.loadQuerySet(config.querySet);
+      if (queries.length === 0) {
+        throw new Error('Query set is empty');
+      }
+
+      return [{
+        seed,
+        trainingData: data,
+        testingData: queries,
+        trainingIndices: data.map((_, index) => index),
+        testingIndices: queries.map((_, index) => index)
+      }];
+    }
+
+    if (config.evaluationMode === 'cross-validation' && config.crossValidation) {
+      return createKFoldSplits(
+        data,
+        config.crossValidation.folds,
+        seed,
+        config.crossValidation.repeats ?? 1
+      );
+    }
+
+    if (config.splitStrategy === 'time' && config.timeSplit) {
+      return [timeSplitData(data, config.trainingRatio, config.timeSplit, seed)];
+    }
+
+    if (config.splitStrategy === 'stratified' && config.stratifyColumn) {
+      return [stratifiedSplitData(data, config.trainingRatio, config.stratifyColumn, seed)];
+    }
+
+    return [splitData(data, config.trainingRatio, seed)];
+  }
+
+  async loadQuerySet(querySet: QuerySetConfig): Promise<Record<string, any>[]> {
+    if (querySet.source === 'jsonl') {
+      return parseJsonl(querySet.jsonl || '');
+    }
+
+    if (!querySet.tableName) {
+      throw new Error('Query set table name is required');
+    }
+    return (await this.db.loadTable(querySet.tableName)).rows;
+  }
+
+  async runCrossValidatedTest(
+    config: TestConfiguration,
+    combination: ColumnCombination,
+    splits: DataSplit[]
+  ): Promise<TestResult> {
+    const startTime = Date.now();
+    const foldResults: TestResult[] = [];
+
+    for (const split of splits) {
+      console.log(`Fold ${(split.fold ?? 0) + 1} (repeat ${(split.repeat ?? 0) + 1})`);
+      foldResults.push(await this.runSingleTest(config, combination, split));
+    }
+
+    const foldScores: FoldScore[] = foldResults.map((result, index) => ({
+      fold: splits[index].fold ?? 0,
+      repeat: splits[index].repeat ?? 0,
+      averageScore: result.averageScore,
+      totalTests: result.totalTests
+    }));
+    const scores = foldScores.map(f => f.averageScore);
+
+    // Merge per-fold results into one record for the combination
+    const results: TestResult['results'] = {};
+    for (const result of foldResults) {
+      for (const [metricId, metricResults] of Object.entries(result.results)) {
+        results[metricId] = [...(results[metricId] || []), ...metricResults];
+      }
+    }
+
+    const metricScores: TestResult['metricScores'] = {};
+    for (const metricType of this.resolveMetricTypes(config)) {
+      metricScores[metricType] = mean(foldResults.map(r => r.metricScores[metricType] ?? 0));
+    }
 
-    console.log(`Split data: ${trainingData.length} training, ${testingData.length} testing`);
+    const queries = foldResults.flatMap((result, index) =>
+      result.queries.map(record => ({
+        ...record,
+        fold: splits[index].fold,
+        repeat: splits[index].repeat
+      }))
+    );
+
+    const testQueries = foldResults.reduce((sum, r) => sum + r.embeddingStats.testQueries, 0);
+    const retrievalTime = foldResults.reduce((sum, r) => sum + r.timings.retrievalTime, 0);
+    const rerankTime = foldResults.reduce((sum, r) => sum + r.timings.rerankTime, 0);
+    const generationTime = foldResults.reduce((sum, r) => sum + r.timings.generationTime, 0);
+    const weightedSimilarity = foldResults.reduce(
+      (sum, r) => sum + r.embeddingStats.averageSimilarity * r.embeddingStats.testQueries, 0
+    );
+
+    return {
+      id: uuidv4(),
+      testName: config.testName,
+      timestamp: new Date(),
+      configuration: config,
+      combination,
+      chunkSize: config.chunking?.chunkSize,
+      results,
+      queries,
+      averageScore: mean(scores),
+      metricScores,
+      totalTests: foldResults.reduce((sum, r) => sum + r.totalTests, 0),
+      processingTime: Date.now() - startTime,
+      embeddingStats: {
+        trainingEmbeddings: Math.round(mean(foldResults.map(r => r.embeddingStats.trainingEmbeddings))),
+        testQueries,
+        averageSimilarity: testQueries > 0 ? weightedSimilarity / testQueries : 0,
+        cacheHits: foldResults.reduce((sum, r) => sum + r.embeddingStats.cacheHits, 0),
+        cacheMisses: foldResults.reduce((sum, r) => sum + r.embeddingStats.cacheMisses, 0),
+        failedRows: foldResults.reduce((sum, r) => sum + r.embeddingStats.failedRows, 0),
+        failedQueries: foldResults.reduce((sum, r) => sum + r.embeddingStats.failedQueries, 0)
+      },
+      retrievalMetrics: this.retrievalMetricCalculator.summarize(
+        queries.map(q => q.retrievalResult),
+        config.topK ?? 5,
+        this.resolveRelevanceMode(config)
+      ),
+      firstStageRetrievalMetrics: config.reranker
+        ? this.retrievalMetricCalculator.summarize(
+            queries.map(q => q.firstStageRetrievalResult ?? q.retrievalResult),
+            config.topK ?? 5,
+            this.resolveRelevanceMode(config)
+          )
+        : undefined,
+      timings: {
+        retrievalTime,
+        rerankTime,
+        generationTime,
+        averageRetrievalTime: testQueries > 0 ? retrievalTime / testQueries : 0,
+        averageRerankTime: testQueries > 0 ? rerankTime / testQueries : 0,
+        averageGenerationTime: testQueries > 0 ? generationTime / testQueries : 0,
+        rerankModel: foldResults[0]?.timings.rerankModel,
+        generator: foldResults[0]?.timings.generator
+      },
+      crossValidation: {
+        foldScores,
+        mean: mean(scores),
+        stdDev: standardDeviation(scores)
+      }
+    };
+  }
+
+  async runSingleTest(
+    config: TestConfiguration,
+    combination: ColumnCombination,
+    split?: DataSplit
+  ): Promise<TestResult> {
+    const testId = uuidv4();
+    const startTime = Date.now();
+    const cacheBefore = this.embeddingGenerator.getCacheStats();
+
+    // Standalone runs compute their own holdout split from the configured seed
+    const { trainingData, testingData } = split ?? (await this.createSplits({
+      ...config,
+      evaluationMode: 'holdout'
+    }))[0];
+
+    console.log(`Using split: ${trainingData.length} training, ${testingData.length} testing`);
 
     // Generate embeddings for training data
     console.log('Generating training embeddings...');
     const trainingEmbeddings = await this.embeddingGenerator.processTrainingData(
       trainingData,
       combination,
-      config.yColumn
+      config.yColumn,
+      {
+        idColumn: config.idColumn,
+        contextTemplate: config.contextTemplate,
+        mode: config.retrievalMode,
+        retriever: config.retriever,
+        chunking: config.chunking
+      }
     );
 
+    const topK = config.topK ?? 5;
+    const relevanceMode = this.resolveRelevanceMode(config);
+    const querySet = config.dataSource === 'corpus-queries' ? config.querySet : undefined;
+    const goldQueries = querySet ? toGoldQueries(testingData, querySet) : null;
+    const corpusById = querySet && config.idColumn
+      ? new Map(trainingData.map(row => [String(row[config.idColumn!]), row]))
+      : null;
+    const metricTypes = this.resolveMetricTypes(config);
+    const calculators = this.createMetricCalculators(config);
+    const reranker = config.reranker ? await this.getReranker(config.reranker) : null;
+    // Reranking needs a wider first-stage pool than the final topK
+    const retrievalDepth = reranker
+      ? Math.max(config.reranker?.candidates ?? DEFAULT_RERANK_CANDIDATES, topK)
+      : topK;
+    const generator: AnswerGenerator | null = config.generation ? createAnswerGenerator(config.generation) : null;
+
     // Process test queries
     console.log('Processing test queries...');
-    const results: any[] = [];
+    const results: QueryRecord[] = [];
     let totalSimilarity = 0;
+    let retrievalTime = 0;
+    let rerankTime = 0;
+    let generationTime = 0;
+    let failedQueries = 0;
 
     for (let i = 0; i < testingData.length; i++) {
       const testRow = testingData[i];
-      const query = testRow[config.queryColumn];
-      const expectedAnswer = testRow[config.answerColumn];
+      let query = testRow[config.queryColumn];
+      let expectedAnswer = testRow[config.answerColumn];
+      let relevantIds: string[] = [];
+
+      if (querySet && goldQueries) {
+        const gold = goldQueries[i];
+        query = gold.query;
+        relevantIds = gold.relevantIds;
+        // Without an answer field the first relevant corpus row provides the expected answer
+        expectedAnswer = querySet.answerField
+          ? gold.expectedAnswer
+          : relevantIds.map(id => corpusById?.get(id)?.[config.yColumn]).find(value => value !== undefined);
+      }
 
       if (!query || !expectedAnswer) {
         console.warn(`Skipping test row ${i} - missing query or answer`);
@@ -200,38 +664,122 @@ export class RAGTestingFramework {
       }
 
       try {
-        // Find best match from training data
-        const matches = await this.embeddingGenerator.processQuery(
+        // Retrieve the ranked candidates from training data
+        const retrievalStart = Date.now();
+        const firstStage = await this.embeddingGenerator.processQuery(
           query,
           trainingEmbeddings,
-          1
+          retrievalDepth,
+          { fusion: config.fusion, hybrid: config.hybrid }
         );
+        retrievalTime += Date.now() - retrievalStart;
 
-        if (matches.length === 0) {
+        if (firstStage.length === 0) {
           console.warn(`No matches found for query: ${query.substring(0, 50)}...`);
           continue;
         }
 
+        // Metrics score the reranked list when the second stage is on
+        let matches: Array<RetrievalMatch & { rerankScore?: number; retrievalRank?: number }> = firstStage.slice(0, topK);
+        if (reranker) {
+          const rerankStart = Date.now();
+          matches = await reranker.rerank(query, firstStage, topK);
+          rerankTime += Date.now() - rerankStart;
+        }
+
         const bestMatch = matches[0];
-        const actualAnswer = bestMatch.result.yValue;
+        let actualAnswer = bestMatch.result.yValue;
         totalSimilarity += bestMatch.similarity;
 
-        // Calculate metric based on type
-        let metricResult: any;
-        if (config.metricType === 'sql') {
-          metricResult = this.sqlMetricCalculator.calculate(expectedAnswer, actualAnswer);
-        } else {
-          metricResult = this.brdrMetricCalculator.calculate(expectedAnswer, actualAnswer);
+        // Synthesize an answer from the retrieved contexts and score that instead
+        let generation: GenerationRecord | undefined;
+        if (generator && config.generation) {
+          const contexts = matches
+            .slice(0, config.generation.contexts ?? topK)
+            .map(match => ({ context: match.result.context, answer: match.result.yValue }));
+          const prompt = buildPrompt(query, contexts, config.generation);
+
+          const generationStart = Date.now();
+          const completion = await generator.generate({
+            query,
+            prompt,
+            system: config.generation.systemPrompt,
+            contexts
+          });
+          generationTime += Date.now() - generationStart;
+
+          generation = {
+            generator: generator.name,
+            prompt,
+            completion,
+            retrievedAnswer: actualAnswer
+          };
+          actualAnswer = completion;
+        }
+
+        // Score the same retrieval with every selected metric
+        const metricResults: QueryRecord['metricResults'] = {};
+        const scores: QueryRecord['scores'] = {};
+        for (const calculator of calculators) {
+          const metricResult = calculator.calculate(expectedAnswer, actualAnswer, {
+            query,
+            retrievedContext: bestMatch.result.context,
+            row: testRow
+          });
+          metricResults[calculator.id] = metricResult;
+          scores[calculator.id] = metricResult.overallScore;
         }
 
+        // Score the ranked list on its own, separately from answer quality
+        const isRelevant = (candidate: EmbeddingResult) =>
+          this.isRelevant(candidate, expectedAnswer, relevanceMode, relevantIds);
+        const candidates: RetrievedCandidate[] = matches.map((match, index) => ({
+          rank: index + 1,
+          rowId: String(match.result.id),
+          context: match.result.context,
+          similarity: match.similarity,
+          fieldSimilarities: match.fieldSimilarities,
+          vectorScore: match.vectorScore,
+          lexicalScore: match.lexicalScore,
+          chunkIndex: match.result.chunkIndex,
+          rerankScore: match.rerankScore,
+          retrievalRank: match.retrievalRank,
+          relevant: isRelevant(match.result)
+        }));
+        // Count relevant rows, not chunks
+        const totalRelevant = new Set(
+          trainingEmbeddings.embeddings.filter(isRelevant).map(item => item.metadata.rowIndex)
+        ).size;
+        const retrievalResult = this.retrievalMetricCalculator.calculate(
+          candidates.map(candidate => candidate.relevant),
+          totalRelevant,
+          topK
+        );
+        const firstStageRetrievalResult = reranker
+          ? this.retrievalMetricCalculator.calculate(
+              firstStage.slice(0, topK).map(match => isRelevant(match.result)),
+              totalRelevant,
+              topK
+            )
+          : undefined;
+
         results.push({
           testIndex: i,
+          rowId: config.idColumn && !querySet ? String(testRow[config.idColumn]) : undefined,
           query,
           expectedAnswer,
           actualAnswer,
+          retrievedRowId: candidates[0].rowId,
+          retrievedContext: candidates[0].context,
+          firstRelevantRank: retrievalResult.firstRelevantRank,
           similarity: bestMatch.similarity,
-          metricResult,
-          score: metricResult.overallScore
+          score: scores[config.metricType] ?? 0,
+          scores,
+          metricResults,
+          retrievalResult,
+          firstStageRetrievalResult,
+          candidates,
+          generation
         });
 
         // Progress logging
@@ -241,6 +789,7 @@ export class RAGTestingFramework {
 
       } catch (error) {
         console.error(`Failed to process test query ${i}:`, error);
+        failedQueries++;
         continue;
       }
     }
@@ -250,6 +799,14 @@ export class RAGTestingFramework {
       results.reduce((sum, r) => sum + r.score, 0) / results.length : 0;
     const averageSimilarity = results.length > 0 ? totalSimilarity / results.length : 0;
 
+    const cacheAfter = this.embeddingGenerator.getCacheStats();
+    if (trainingEmbeddings.failedRows.length > 0 || failedQueries > 0) {
+      // Combinations that lost different rows are not strictly comparable
+      console.warn(
+        `${combination.name}: ${trainingEmbeddings.failedRows.length} training rows and ` +
+        `${failedQueries} test queries failed permanently`
+      );
+    }
     const processingTime = Date.now() - startTime;
 
     return {
@@ -258,24 +815,118 @@ export class RAGTestingFramework {
       timestamp: new Date(),
       configuration: config,
       combination,
+      chunkSize: config.chunking?.chunkSize,
       results: {
-        [config.metricType]: results.map(r => r.metricResult)
+        ...Object.fromEntries(
+          metricTypes.map(metricType => [metricType, results.map(r => r.metricResults[metricType])])
+        )
       },
+      queries: results,
       averageScore,
+      metricScores: Object.fromEntries(
+        metricTypes.map(metricType => [metricType, mean(results.map(r => r.scores[metricType] ?? 0))])
+      ),
       totalTests: results.length,
       processingTime,
       embeddingStats: {
         trainingEmbeddings: trainingEmbeddings.embeddings.length,
         testQueries: results.length,
-        averageSimilarity
+        averageSimilarity,
+        cacheHits: cacheAfter.hits - cacheBefore.hits,
+        cacheMisses: cacheAfter.misses - cacheBefore.misses,
+        failedRows: trainingEmbeddings.failedRows.length,
+        failedQueries
+      },
+      retrievalMetrics: this.retrievalMetricCalculator.summarize(
+        results.map(r => r.retrievalResult),
+        topK,
+        relevanceMode
+      ),
+      firstStageRetrievalMetrics: reranker
+        ? this.retrievalMetricCalculator.summarize(
+            results.map(r => r.firstStageRetrievalResult ?? r.retrievalResult),
+            topK,
+            relevanceMode
+          )
+        : undefined,
+      timings: {
+        retrievalTime,
+        rerankTime,
+        generationTime,
+        averageRetrievalTime: results.length > 0 ? retrievalTime / results.length : 0,
+        averageRerankTime: results.length > 0 ? rerankTime / results.length : 0,
+        averageGenerationTime: results.length > 0 ? generationTime / results.length : 0,
+        rerankModel: reranker?.modelName,
+        generator: generator?.name
       }
     };
   }
 
-  async validateConfiguration(config: TestConfiguration): Promise<{
+  private resolveMetricTypes(config: TestConfiguration): string[] {
+    return [...new Set([config.metricType, ...(config.metricTypes || [])])];
+  }
+
+  private createMetricCalculators(config: TestConfiguration): MetricCalculator[] {
+    return this.resolveMetricTypes(config).map(metricId =>
+      metricRegistry.create(metricId, config.metricConfigs?.[metricId])
+    );
+  }
+
+  private rankByMetric(
+    allResults: TestResult[],
+    metricTypes: string[]
+  ): ExperimentResults['summary']['metricRankings'] {
+    const rankings: ExperimentResults['summary']['metricRankings'] = {};
+
+    for (const metricType of metricTypes) {
+      rankings[metricType] = allResults
+        .map(result => ({
+          combination: result.combination,
+          chunkSize: result.chunkSize,
+          score: result.metricScores[metricType] ?? 0
+        }))
+        .sort((a, b) => b.score - a.score)
+        .map((entry, index) => ({ rank: index + 1, ...entry }));
+    }
+
+    return rankings;
+  }
+
+  private isRelevant(
+    candidate: EmbeddingResult,
+    expectedAnswer: any,
+    relevanceMode: RetrievalMetricSummary['relevanceMode'],
+    relevantIds: string[] = []
+  ): boolean {
+    if (relevanceMode === 'relevance-mapping') {
+      return relevantIds.includes(String(candidate.id));
+    }
+
+    return this.normalizeAnswer(candidate.yValue) === this.normalizeAnswer(expectedAnswer);
+  }
+
+  // Query sets carry their own relevance mapping, which overrides the configured mode
+  private resolveRelevanceMode(config: TestConfiguration): RetrievalMetricSummary['relevanceMode'] {
+    if (config.dataSource === 'corpus-queries') return 'relevance-mapping';
+    return config.relevanceMode ?? 'answer-equivalence';
+  }
+
+  private normalizeAnswer(value: any): string {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.replace(/\s+/g, ' ').replace(/;$/, '').trim().toLowerCase();
+  }
+
+  // checkLeakage: false skips the duplicate scan, which loads the whole table, when the
+  // same configuration has already been validated
+  async validateConfiguration(
+    config: TestConfiguration,
+    options: { checkLeakage?: boolean } = {}
+  ): Promise<{
     isValid: boolean;
     errors: string[];
     warnings: string[];
+    leakage?: DuplicateReport;
   }> {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -289,6 +940,36 @@ export class RAGTestingFramework {
 
     const columnNames = tableInfo.columns.map(col => col.column_name);
 
+    let matchingRows = tableInfo.rowCount;
+    if (config.filters?.length) {
+      const filterErrors = validateRowFilters(config.filters, tableInfo.columns, config.tableName);
+      errors.push(...filterErrors);
+
+      if (filterErrors.length === 0) {
+        try {
+          matchingRows = await this.db.countRows(config.tableName, config.filters);
+          if (matchingRows === 0) {
+            errors.push('No rows match the configured filters');
+          }
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : 'Filters could not be applied');
+        }
+      }
+    }
+
+    // Rows the experiment will actually use
+    const rowCount = config.sampleSize !== undefined ? Math.min(config.sampleSize, matchingRows) : matchingRows;
+
+    if (config.sampleSize !== undefined) {
+      if (!Number.isInteger(config.sampleSize) || config.sampleSize < 1) {
+        errors.push('Sample size must be a positive integer');
+      } else if (config.sampleSize >= matchingRows) {
+        warnings.push(`Sample size ${config.sampleSize} covers every matching row (${matchingRows}) - no sampling will happen`);
+      } else if (config.dataSource === 'corpus-queries') {
+        warnings.push('Sampling the corpus drops rows that the query set may reference as relevant');
+      }
+    }
+
     // Check if selected columns exist
     for (const column of config.selectedColumns) {
       if (!columnNames.includes(column)) {
@@ -301,13 +982,19 @@ export class RAGTestingFramework {
       errors.push(`Y column "${config.yColumn}" not found in table "${config.tableName}"`);
     }
 
-    // Check if query and answer columns exist
-    if (!columnNames.includes(config.queryColumn)) {
-      errors.push(`Query column "${config.queryColumn}" not found in table "${config.tableName}"`);
-    }
+    const corpusMode = config.dataSource === 'corpus-queries';
+
+    if (corpusMode) {
+      await this.validateQuerySet(config, columnNames, errors, warnings);
+    } else {
+      // Check if query and answer columns exist
+      if (!columnNames.includes(config.queryColumn)) {
+        errors.push(`Query column "${config.queryColumn}" not found in table "${config.tableName}"`);
+      }
 
-    if (!columnNames.includes(config.answerColumn)) {
-      errors.push(`Answer column "${config.answerColumn}" not found in table "${config.tableName}"`);
+      if (!columnNames.includes(config.answerColumn)) {
+        errors.push(`Answer column "${config.answerColumn}" not found in table "${config.tableName}"`);
+      }
     }
 
     // Check if selected columns are reasonable
@@ -315,8 +1002,184 @@ export class RAGTestingFramework {
       errors.push('At least one column must be selected for embeddings');
     }
 
-    if (config.selectedColumns.length > 5) {
-      warnings.push('More than 5 columns selected - this may result in many combinations and slow processing');
+    // Embedding the scored answer puts it straight into every retrieved context
+    if (!corpusMode) {
+      for (const [role, column] of [['Answer', config.answerColumn], ['Y', config.yColumn]]) {
+        if (config.selectedColumns.includes(column)) {
+          errors.push(`${role} column "${column}" is also an embedding column - retrieved contexts would contain the expected answer`);
+        }
+      }
+      if (config.selectedColumns.includes(config.queryColumn)) {
+        warnings.push(
+          `Query column "${config.queryColumn}" is also an embedding column - ` +
+          'scores will measure query-to-query similarity rather than query-to-document retrieval'
+        );
+      }
+    }
+
+    if (config.contextTemplate) {
+      const template = config.contextTemplate;
+      const placeholders = template.template
+        ? Array.from(template.template.matchAll(/\{([^{}]+)\}/g), match => match[1].trim())
+        : [];
+
+      for (const column of [...placeholders, ...(template.fieldOrder || [])]) {
+        if (!columnNames.includes(column)) {
+          errors.push(`Context template column "${column}" not found in table "${config.tableName}"`);
+        } else if (!config.selectedColumns.includes(column)) {
+          warnings.push(`Context template column "${column}" is not a selected embedding column and will be left empty`);
+        }
+      }
+
+      if (template.template && placeholders.length === 0) {
+        warnings.push('Context template has no {column} placeholders - every row will embed the same text');
+      }
+
+      if (template.maxFieldLength !== undefined && (!Number.isInteger(template.maxFieldLength) || template.maxFieldLength < 1)) {
+        errors.push('Context template max field length must be a positive integer');
+      }
+    }
+
+    if (config.retrievalMode === 'field-level' && config.fusion) {
+      for (const column of Object.keys(config.fusion.weights || {})) {
+        if (!config.selectedColumns.includes(column)) {
+          warnings.push(`Fusion weight for "${column}" is ignored - it is not a selected embedding column`);
+        }
+      }
+
+      if (Object.values(config.fusion.weights || {}).some(weight => !Number.isFinite(weight) || weight < 0)) {
+        errors.push('Fusion weights must be non-negative numbers');
+      }
+
+      if (config.fusion.rrfK !== undefined && !(config.fusion.rrfK > 0)) {
+        errors.push('RRF constant must be greater than 0');
+      }
+    }
+
+    if (config.retriever === 'hybrid' && config.hybrid) {
+      const { alpha, rrfK } = config.hybrid;
+      if (alpha !== undefined && !(alpha >= 0 && alpha <= 1)) {
+        errors.push('Hybrid alpha must be between 0 and 1');
+      }
+      if (rrfK !== undefined && !(rrfK > 0)) {
+        errors.push('Hybrid RRF constant must be greater than 0');
+      }
+    }
+
+    if (config.reranker) {
+      const candidates = config.reranker.candidates;
+      if (candidates !== undefined && (!Number.isInteger(candidates) || candidates < 1)) {
+        errors.push('Rerank candidates must be a positive integer');
+      } else if ((candidates ?? DEFAULT_RERANK_CANDIDATES) < (config.topK ?? 5)) {
+        warnings.push('Rerank candidates is smaller than Top K - the first stage will retrieve Top K candidates instead');
+      }
+    }
+
+    if (config.generation) {
+      const generation = config.generation;
+      if (!['ai-sdk', 'openai-compatible', 'mock'].includes(generation.provider)) {
+        errors.push(`Unknown generator provider "${generation.provider}"`);
+      }
+      if (generation.provider === 'openai-compatible' && (!generation.baseUrl || !generation.model)) {
+        errors.push('OpenAI-compatible generation requires a base URL and a model');
+      }
+      if (generation.contexts !== undefined && (!Number.isInteger(generation.contexts) || generation.contexts < 1)) {
+        errors.push('Generation contexts must be a positive integer');
+      } else if ((generation.contexts ?? 0) > (config.topK ?? 5)) {
+        warnings.push('Generation contexts is larger than Top K - only Top K contexts are retrieved');
+      }
+      if (generation.promptTemplate && !generation.promptTemplate.includes('{context}')) {
+        warnings.push('Prompt template has no {context} placeholder - retrieved contexts will not reach the generator');
+      }
+      if (generation.promptTemplate && !generation.promptTemplate.includes('{query}')) {
+        warnings.push('Prompt template has no {query} placeholder - the question will not reach the generator');
+      }
+    }
+
+    if (config.chunking) {
+      const { chunkSize, overlap = 0 } = config.chunking;
+      const sizes = config.chunkSizes?.length ? config.chunkSizes : [chunkSize];
+
+      if (!['fixed', 'sentence', 'paragraph'].includes(config.chunking.strategy)) {
+        errors.push(`Unknown chunking strategy "${config.chunking.strategy}"`);
+      }
+      if (sizes.some(size => !Number.isInteger(size) || size < 1)) {
+        errors.push('Chunk sizes must be positive integers');
+      } else if (!Number.isInteger(overlap) || overlap < 0 || sizes.some(size => overlap >= size)) {
+        errors.push('Chunk overlap must be a non-negative integer smaller than every chunk size');
+      }
+      if (config.retrievalMode === 'field-level') {
+        warnings.push('Chunking only applies to concatenated retrieval and is ignored in field-level mode');
+      }
+      if (config.chunkSizes && config.chunkSizes.length > 1) {
+        warnings.push(`Chunk size sweep multiplies the number of test runs by ${config.chunkSizes.length}`);
+      }
+    } else if (config.chunkSizes?.length) {
+      warnings.push('Chunk size sweep is ignored without a chunking strategy');
+    }
+
+    if (config.retriever === 'lexical' && config.retrievalMode === 'field-level') {
+      warnings.push('Field-level retrieval has no effect with the lexical retriever');
+    }
+
+    const strategy = config.searchStrategy ?? 'exhaustive';
+    if (strategy === 'exhaustive' && config.selectedColumns.length > DEFAULT_MAX_EXHAUSTIVE_COLUMNS) {
+      const dropped = config.selectedColumns.slice(DEFAULT_MAX_EXHAUSTIVE_COLUMNS);
+      warnings.push(
+        `Exhaustive search only uses the first ${DEFAULT_MAX_EXHAUSTIVE_COLUMNS} columns - ` +
+        `dropped: ${dropped.join(', ')}. Use a greedy, backward or beam search strategy for more columns`
+      );
+    }
+
+    if (config.searchBudget !== undefined && (!Number.isInteger(config.searchBudget) || config.searchBudget < 1)) {
+      errors.push('Search budget must be a positive integer');
+    }
+
+    if (config.beamWidth !== undefined && (!Number.isInteger(config.beamWidth) || config.beamWidth < 1)) {
+      errors.push('Beam width must be a positive integer');
+    }
+
+    if (config.embeddingConfig.model === 'openai-compatible' && 
+        (!config.embeddingConfig.baseUrl || !config.embeddingConfig.compatibleModel)) {
+      errors.push('OpenAI-compatible embeddings require a base URL and a model');
+    }
+
+    const { pooling, queryPrefix, passagePrefix } = config.embeddingConfig;
+    if (pooling !== undefined && !['mean', 'cls'].includes(pooling)) {
+      errors.push(`Unknown pooling strategy "${pooling}" (available: mean, cls)`);
+    }
+    if (config.embeddingConfig.model !== 'local' && 
+        (pooling !== undefined || config.embeddingConfig.normalize !== undefined)) {
+      warnings.push('Pooling and normalization only apply to local models - remote providers return pooled vectors');
+    }
+    if (Boolean(queryPrefix) !== Boolean(passagePrefix)) {
+      warnings.push('Only one of the query and passage prefixes is set - most instruction-tuned models expect both');
+    }
+
+    const { batchSize, concurrency } = config.embeddingConfig;
+    if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+      errors.push('Embedding batch size must be a positive integer');
+    }
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      errors.push('Embedding concurrency must be a positive integer');
+    }
+
+    const retry = config.embeddingConfig.retry;
+    if (retry?.maxRetries !== undefined && (!Number.isInteger(retry.maxRetries) || retry.maxRetries < 0)) {
+      errors.push('Embedding max retries must be a non-negative integer');
+    }
+    if ((retry?.initialDelayMs !== undefined && !(retry.initialDelayMs > 0)) || 
+        (retry?.maxDelayMs !== undefined && !(retry.maxDelayMs > 0))) {
+      errors.push('Embedding retry delays must be greater than 0');
+    }
+
+    const rateLimit = config.embeddingConfig.rateLimit;
+    if ((rateLimit?.requestsPerMinute !== undefined && !(rateLimit.requestsPerMinute > 0)) || 
+        (rateLimit?.tokensPerMinute !== undefined && !(rateLimit.tokensPerMinute > 0))) {
+      errors.push('Embedding rate limits must be greater than 0');
+    }
+    if (rateLimit && config.embeddingConfig.model === 'local') {
+      warnings.push('Rate limits only apply to remote embedding providers and are ignored for the local model');
     }
 
     // Check training ratio
@@ -324,23 +1187,282 @@ export class RAGTestingFramework {
       errors.push('Training ratio must be between 0 and 1');
     }
 
+    if (config.seed !== undefined && (!Number.isInteger(config.seed) || config.seed < 0)) {
+      errors.push('Seed must be a non-negative integer');
+    }
+
+    if (config.nearDuplicateThreshold !== undefined && 
+        !(config.nearDuplicateThreshold > 0 && config.nearDuplicateThreshold <= 1)) {
+      errors.push('Near-duplicate threshold must be between 0 and 1');
+    }
+
+    for (const metricType of this.resolveMetricTypes(config)) {
+      if (!metricRegistry.has(metricType)) {
+        errors.push(`Unknown metric type "${metricType}" (available: ${metricRegistry.ids().join(', ')})`);
+      }
+    }
+
+    if (config.topK !== undefined && (!Number.isInteger(config.topK) || config.topK < 1)) {
+      errors.push('Top K must be a positive integer');
+    }
+
+    // Test rows are never indexed in self-split mode, so a query's own row can't be retrieved
+    // and answer equivalence is the only relevance mode
+    if (config.relevanceMode !== undefined && config.relevanceMode !== 'answer-equivalence' && !corpusMode) {
+      errors.push(
+        `Unknown relevance mode "${config.relevanceMode}" (available: answer-equivalence) - ` +
+        'use a query set with a relevance mapping to judge relevance by row id'
+      );
+    } else if (config.idColumn && !corpusMode && !columnNames.includes(config.idColumn)) {
+      errors.push(`ID column "${config.idColumn}" not found in table "${config.tableName}"`);
+    }
+
+    if (config.splitStrategy === 'time') {
+      const column = config.timeSplit?.column;
+      const columnInfo = tableInfo.columns.find(col => col.column_name === column);
+
+      if (corpusMode) {
+        errors.push('Time-based splits are only available in self-split mode');
+      } else if (config.evaluationMode === 'cross-validation') {
+        errors.push('Time-based splits hold out one test period and cannot be combined with cross-validation');
+      }
+      if (!column) {
+        errors.push('Time-based split requires a date or timestamp column');
+      } else if (!columnInfo) {
+        errors.push(`Time column "${column}" not found in table "${config.tableName}"`);
+      } else if (!TEMPORAL_TYPES.includes(columnInfo.data_type.toLowerCase())) {
+        errors.push(`Time column "${column}" must be a date or timestamp, but is ${columnInfo.data_type}`);
+      }
+      if (config.timeSplit?.cutoff && Number.isNaN(Date.parse(config.timeSplit.cutoff))) {
+        errors.push(`Time split cutoff "${config.timeSplit.cutoff}" is not a valid date`);
+      }
+    }
+
+    if (config.splitStrategy === 'stratified') {
+      if (corpusMode) {
+        errors.push('Stratified splits are only available in self-split mode');
+      } else if (config.evaluationMode === 'cross-validation') {
+        errors.push('Stratified splits apply to the holdout split and cannot be combined with cross-validation');
+      }
+      if (!config.stratifyColumn) {
+        errors.push('Stratified split requires a column to stratify on');
+      } else if (!columnNames.includes(config.stratifyColumn)) {
+        errors.push(`Stratify column "${config.stratifyColumn}" not found in table "${config.tableName}"`);
+      }
+    }
+
+    if (corpusMode && config.evaluationMode === 'cross-validation') {
+      errors.push('Cross-validation is only available in self-split mode - a query set is evaluated as a whole');
+    } else if (config.evaluationMode === 'cross-validation') {
+      const folds = config.crossValidation?.folds;
+      const repeats = config.crossValidation?.repeats ?? 1;
+
+      if (!folds || !Number.isInteger(folds) || folds < 2) {
+        errors.push('Cross-validation requires an integer number of folds of at least 2');
+      } else if (folds > rowCount) {
+        errors.push(`Cannot create ${folds} folds from ${rowCount} rows`);
+      } else if (Math.floor(rowCount / folds) < 5) {
+        warnings.push('Each fold will have fewer than 5 test rows - consider fewer folds');
+      }
+
+      if (!Number.isInteger(repeats) || repeats < 1) {
+        errors.push('Cross-validation repeats must be a positive integer');
+      }
+    }
+
+    let leakage: DuplicateReport | undefined;
+    if (!corpusMode && errors.length === 0 && options.checkLeakage !== false) {
+      leakage = await this.detectSplitLeakage(config, errors, warnings);
+    }
+
     // Check if table has enough data
-    if (tableInfo.rowCount < 10) {
+    if (rowCount < 10) {
       warnings.push('Table has very few rows - results may not be reliable');
     }
 
-    const minTestSize = Math.ceil(tableInfo.rowCount * (1 - config.trainingRatio));
-    if (minTestSize < 5) {
+    const minTestSize = Math.ceil(rowCount * (1 - config.trainingRatio));
+    if (!corpusMode && config.evaluationMode !== 'cross-validation' && !config.timeSplit?.cutoff && minTestSize < 5) {
       warnings.push('Test set will be very small - consider adjusting training ratio');
     }
 
     return {
       isValid: errors.length === 0,
       errors,
-      warnings
+      warnings,
+      leakage
     };
   }
 
+  /**
+   * Looks for test rows duplicated on the training side. With a seeded or time-based
+   * holdout the actual split is checked; otherwise any duplicate pair can straddle it.
+   */
+  private async detectSplitLeakage(
+    config: TestConfiguration,
+    errors: string[],
+    warnings: string[]
+  ): Promise<DuplicateReport> {
+    const columns = [...new Set([...config.selectedColumns, config.queryColumn])];
+    const threshold = config.nearDuplicateThreshold ?? DEFAULT_NEAR_DUPLICATE_THRESHOLD;
+    const checkActualSplit = (config.seed !== undefined || config.splitStrategy === 'time') && 
+      config.evaluationMode !== 'cross-validation';
+
+    let report: DuplicateReport;
+    let scope: string;
+    if (checkActualSplit) {
+      const [split] = await this.createSplits(config);
+      if (config.splitStrategy === 'time') {
+        this.checkTimeSplit(config, split, errors, warnings);
+      } else if (split.strata) {
+        this.checkStrata(config, split.strata, warnings);
+      }
+      report = detectDuplicates(split.testingData, split.trainingData, columns, threshold);
+      scope = 'test rows';
+    } else {
+      const { rows } = await this.loadTableData(config);
+      report = detectDuplicates(rows, rows, columns, threshold);
+      scope = 'rows';
+    }
+
+    const target = checkActualSplit ? 'a training row' : 'another row and can land on both sides of the split';
+    if (report.exactDuplicates > 0) {
+      const message = `${report.exactDuplicates} of ${report.checkedRows} ${scope} are exact duplicates of ${target}`;
+      // A handful of duplicates is common; a large share makes scores meaningless
+      if (report.exactDuplicates / report.checkedRows >= MAX_EXACT_DUPLICATE_RATIO) {
+        errors.push(`${message} - deduplicate the table before testing`);
+      } else {
+        warnings.push(message);
+      }
+    }
+    if (report.nearDuplicates > 0) {
+      warnings.push(
+        `${report.nearDuplicates} of ${report.checkedRows} ${scope} are near-duplicates ` +
+        `(>= ${Math.round(threshold * 100)}% shingle overlap) of ${target}`
+      );
+    }
+
+    return report;
+  }
+
+  private checkTimeSplit(config: TestConfiguration, split: DataSplit, errors: string[], warnings: string[]): void {
+    const cutoff = config.timeSplit?.cutoff;
+
+    if (split.testingData.length === 0) {
+      errors.push(cutoff
+        ? `No rows dated on or after the cutoff ${cutoff} - the test set is empty`
+        : 'Time-based split left the test set empty');
+    } else if (split.trainingData.length === 0) {
+      errors.push(cutoff
+        ? `No rows dated before the cutoff ${cutoff} - the training set is empty`
+        : 'Every row shares the same timestamp - the time-based split has no training rows');
+    } else if (split.testingData.length < 5) {
+      warnings.push(`Time-based split has only ${split.testingData.length} test rows`);
+    }
+
+    if (split.undatedRows) {
+      warnings.push(`${split.undatedRows} rows have no ${config.timeSplit?.column} and are left out of the split`);
+    }
+  }
+
+  private checkStrata(config: TestConfiguration, strata: StratumCount[], warnings: string[]): void {
+    const untested = strata.filter(stratum => stratum.testing === 0);
+
+    if (strata.length > 100) {
+      warnings.push(
+        `"${config.stratifyColumn}" has ${strata.length} distinct values - ` +
+        'stratifying works best on a categorical column'
+      );
+    }
+    if (untested.length > 0) {
+      warnings.push(
+        `${untested.length} of ${strata.length} "${config.stratifyColumn}" values have too few rows ` +
+        `to appear in the test set (${untested.slice(0, 5).map(stratum => stratum.value).join(', ')}` +
+        `${untested.length > 5 ? ', ...' : ''})`
+      );
+    }
+  }
+
+  // Checks the query set fields and how many relevant ids actually exist in the corpus
+  private async validateQuerySet(
+    config: TestConfiguration,
+    corpusColumns: string[],
+    errors: string[],
+    warnings: string[]
+  ): Promise<void> {
+    const querySet = config.querySet;
+    if (!querySet) {
+      errors.push('Corpus-queries mode requires a query set');
+      return;
+    }
+
+    if (!config.idColumn) {
+      errors.push('Corpus-queries mode requires an ID column to resolve relevant corpus ids');
+    } else if (!corpusColumns.includes(config.idColumn)) {
+      errors.push(`ID column "${config.idColumn}" not found in table "${config.tableName}"`);
+    }
+
+    const fields = [querySet.queryField, querySet.relevantIdsField, querySet.answerField]
+      .filter((field): field is string => !!field);
+
+    if (querySet.source === 'table') {
+      const queryTable = querySet.tableName ? await this.db.getTableInfo(querySet.tableName) : null;
+      if (!queryTable) {
+        errors.push(`Query set table "${querySet.tableName ?? ''}" not found`);
+        return;
+      }
+
+      const queryColumns = queryTable.columns.map(col => col.column_name);
+      for (const field of fields) {
+        if (!queryColumns.includes(field)) {
+          errors.push(`Query set column "${field}" not found in table "${querySet.tableName}"`);
+        }
+      }
+    }
+
+    let records: Record<string, any>[];
+    try {
+      records = await this.loadQuerySet(querySet);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Failed to load the query set');
+      return;
+    }
+
+    if (records.length === 0) {
+      errors.push('Query set is empty');
+      return;
+    }
+
+    if (querySet.source === 'jsonl') {
+      for (const field of fields) {
+        const missing = records.filter(record => !(field in record)).length;
+        if (missing > 0) {
+          errors.push(`Query set field "${field}" is missing from ${missing} of ${records.length} records`);
+        }
+      }
+    }
+
+    if (!config.idColumn || errors.length > 0) return;
+
+    const corpusIds = new Set(
+      (await this.db.loadTable(config.tableName, { columns: [config.idColumn], filters: config.filters })).rows
+        .map(row => String(row[config.idColumn!]))
+    );
+    let withoutRelevant = 0;
+    let unknownIds = 0;
+    for (const record of records) {
+      const relevantIds = parseRelevantIds(record[querySet.relevantIdsField]);
+      if (relevantIds.length === 0) withoutRelevant++;
+      unknownIds += relevantIds.filter(id => !corpusIds.has(id)).length;
+    }
+
+    if (withoutRelevant > 0) {
+      warnings.push(`${withoutRelevant} of ${records.length} queries have no relevant corpus ids`);
+    }
+    if (unknownIds > 0) {
+      warnings.push(`${unknownIds} relevant ids in the query set do not exist in corpus table "${config.tableName}"`);
+    }
+  }
+
   // Utility methods for analysis
   async getColumnDataTypes(tableName: string): Promise<Record<string, string>> {
     const tableInfo = await this.db.getTableInfo(tableName);
@@ -1,5 +1,7 @@
 import { createSupabaseClient } from '../supabase';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { createSeededRandom } from '../core/data-split';
+import { RowFilter, applyRowFilters } from './row-filters';
 
 export interface DatabaseConfig {
   url: string;
@@ -11,6 +13,7 @@ export interface TableSchema {
   column_name: string;
   data_type: string;
   is_nullable: boolean;
+  is_primary_key?: boolean;
 }
 
 export interface TableInfo {
@@ -19,6 +22,27 @@ export interface TableInfo {
   rowCount: number;
 }
 
+export interface TableLoadOptions {
+  columns?: string[];
+  orderBy?: string[]; // Stable page order; defaults to the primary key
+  filters?: RowFilter[]; // Only rows matching every filter are counted and loaded
+  pageSize?: number; // Rows per request; defaults to 1000, Supabase's usual max
+  sampleSize?: number; // Load a seeded random sample of this many rows instead of the whole table
+  seed?: number;
+}
+
+export interface TableLoadResult {
+  rows: any[];
+  totalRows: number; // Exact row count of the table after filters
+  loadedRows: number;
+  sampled: boolean;
+  orderBy: string[];
+}
+
+export const DEFAULT_PAGE_SIZE = 1000;
+// Keys per in() request when fetching sampled rows; keeps the request URL well under server limits
+const SAMPLE_KEY_BATCH_SIZE = 200;
+
 export class DatabaseConnection {
   private supabase: SupabaseClient;
   private isConnected: boolean = false;
@@ -75,7 +99,8 @@ export class DatabaseConnection {
           table_name: row.table_name,
           column_name: row.column_name,
           data_type: row.data_type,
-          is_nullable: row.is_nullable === 'YES'
+          is_nullable: row.is_nullable === 'YES',
+          is_primary_key: row.is_primary_key === true
         })),
         rowCount: tableInfoData[0]?.row_count || 0
       };
@@ -89,15 +114,20 @@ export class DatabaseConnection {
     tableName: string, 
     columns: string[] = ['*'],
     limit?: number,
-    offset?: number
+    offset?: number,
+    filters?: RowFilter[]
   ): Promise<any[]> {
     try {
-      let query = this.supabase
-        .from(tableName)
-        .select(columns.join(','));
+      let query = applyRowFilters(
+        this.supabase.from(tableName).select(columns.join(',')),
+        filters
+      );
 
-      if (limit) query = query.limit(limit);
-      if (offset) query = query.range(offset, offset + (limit || 1000) - 1);
+      // range() is inclusive and replaces limit(), so both are expressed as one range
+      if (limit !== undefined || offset !== undefined) {
+        const start = offset ?? 0;
+        query = query.range(start, start + (limit ?? DEFAULT_PAGE_SIZE) - 1);
+      }
 
       const { data, error } = await query;
       
@@ -109,6 +139,126 @@ export class DatabaseConnection {
     }
   }
 
+  async countRows(tableName: string, filters?: RowFilter[]): Promise<number> {
+    const { count, error } = await applyRowFilters(
+      this.supabase.from(tableName).select('*', { count: 'exact', head: true }),
+      filters
+    );
+
+    if (error) throw new Error(`Failed to count rows in ${tableName}: ${error.message}`);
+    return count ?? 0;
+  }
+
+  // Primary key columns, falling back to an "id" column and then the first column
+  async getOrderColumns(tableName: string): Promise<string[]> {
+    const info = await this.getTableInfo(tableName);
+    const columns = info?.columns || [];
+
+    const primaryKey = columns.filter(col => col.is_primary_key).map(col => col.column_name);
+    if (primaryKey.length > 0) return primaryKey;
+
+    const fallback = columns.find(col => col.column_name === 'id') || columns[0];
+    if (fallback) {
+      console.warn(`No primary key found for ${tableName} - paging ordered by "${fallback.column_name}"`);
+      return [fallback.column_name];
+    }
+    return [];
+  }
+
+  /**
+   * Pages through the whole table (or a seeded random sample of it) in a stable order,
+   * so results are not silently cut off at the API's per-request row cap.
+   */
+  async loadTable(tableName: string, options: TableLoadOptions = {}): Promise<TableLoadResult> {
+    const columns = options.columns || ['*'];
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const orderBy = options.orderBy?.length ? options.orderBy : await this.getOrderColumns(tableName);
+    const totalRows = await this.countRows(tableName, options.filters);
+
+    // Requests at most pageSize rows at a time and keeps going when the server caps a page lower
+    const fetchRange = async (start: number, count: number, select: string[] = columns): Promise<any[]> => {
+      const rows: any[] = [];
+      while (rows.length < count) {
+        const from = start + rows.length;
+        const to = Math.min(from + pageSize, start + count) - 1;
+
+        let query = applyRowFilters(this.supabase.from(tableName).select(select.join(',')), options.filters);
+        for (const column of orderBy) {
+          query = query.order(column, { ascending: true });
+        }
+
+        const { data, error } = await query.range(from, to);
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+        rows.push(...data);
+      }
+      return rows;
+    };
+
+    const sampled = options.sampleSize !== undefined && options.sampleSize < totalRows;
+    const rows: any[] = [];
+
+    if (sampled) {
+      // Floyd's algorithm picks distinct row offsets without materializing every index
+      const random = createSeededRandom(options.seed ?? 0);
+      const offsets = new Set<number>();
+      for (let j = totalRows - options.sampleSize!; j < totalRows; j++) {
+        const candidate = Math.floor(random() * (j + 1));
+        offsets.add(offsets.has(candidate) ? j : candidate);
+      }
+
+      const sorted = [...offsets].sort((a, b) => a - b);
+
+      // With a single unique key column, page through just the keys (cheap) and fetch the
+      // sampled rows by key, so a sparse sample costs a few requests instead of one per row
+      const keys = orderBy.length === 1
+        ? (await fetchRange(0, totalRows, orderBy)).map(row => row[orderBy[0]])
+        : [];
+      const keysUsable = keys.length > 0 && !keys.some(key => key === null) && new Set(keys).size === keys.length;
+
+      if (keysUsable) {
+        const sampledKeys = sorted.filter(offset => offset < keys.length).map(offset => keys[offset]);
+        for (let i = 0; i < sampledKeys.length; i += SAMPLE_KEY_BATCH_SIZE) {
+          const { data, error } = await applyRowFilters(
+            this.supabase.from(tableName).select(columns.join(',')),
+            options.filters
+          )
+            .in(orderBy[0], sampledKeys.slice(i, i + SAMPLE_KEY_BATCH_SIZE))
+            .order(orderBy[0], { ascending: true });
+          if (error) throw error;
+          rows.push(...(data || []));
+        }
+      } else {
+        // Composite or non-unique order columns: fetch only the pages that contain sampled offsets
+        const byPage = new Map<number, number[]>();
+        for (const offset of sorted) {
+          const page = Math.floor(offset / pageSize);
+          let positions = byPage.get(page);
+          if (!positions) byPage.set(page, positions = []);
+          positions.push(offset % pageSize);
+        }
+        for (const [page, positions] of byPage) {
+          const data = await fetchRange(page * pageSize, pageSize);
+          positions.forEach(position => {
+            if (position < data.length) rows.push(data[position]);
+          });
+        }
+      }
+    } else {
+      rows.push(...await fetchRange(0, totalRows));
+    }
+
+    console.log(`Loaded ${rows.length} of ${totalRows} rows from ${tableName}${sampled ? ' (sampled)' : ''}`);
+
+    return {
+      rows,
+      totalRows,
+      loadedRows: rows.length,
+      sampled,
+      orderBy
+    };
+  }
+
   async executeRawQuery(query: string): Promise<any[]> {
     try {
       const { data, error } = await this.supabase.rpc('execute_sql', { 
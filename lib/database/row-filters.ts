@@ -0,0 +1,107 @@
+import { TableSchema } from './connection';
+
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'like'
+  | 'ilike'
+  | 'in'
+  | 'is_null'
+  | 'not_null';
+
+export interface RowFilter {
+  column: string;
+  operator: FilterOperator;
+  value?: any; // Unused for is_null / not_null; an array or comma-separated list for in
+}
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'in', 'is_null', 'not_null'
+];
+
+const NUMERIC_TYPES = ['smallint', 'integer', 'bigint', 'numeric', 'real', 'double precision', 'decimal'];
+export const TEMPORAL_TYPES = ['date', 'timestamp', 'timestamp without time zone', 'timestamp with time zone'];
+
+function listValues(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  return String(value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Applies the filters to a Supabase select query; every filter must hold (AND)
+export function applyRowFilters(query: any, filters: RowFilter[] = []): any {
+  let filtered = query;
+
+  for (const filter of filters) {
+    switch (filter.operator) {
+      case 'is_null':
+        filtered = filtered.is(filter.column, null);
+        break;
+      case 'not_null':
+        filtered = filtered.not(filter.column, 'is', null);
+        break;
+      case 'in':
+        filtered = filtered.in(filter.column, listValues(filter.value));
+        break;
+      default:
+        filtered = filtered[filter.operator](filter.column, filter.value);
+    }
+  }
+
+  return filtered;
+}
+
+export function validateRowFilters(filters: RowFilter[], columns: TableSchema[], tableName: string): string[] {
+  const errors: string[] = [];
+
+  filters.forEach((filter, index) => {
+    const label = `Filter ${index + 1}`;
+    const column = columns.find(col => col.column_name === filter.column);
+
+    if (!column) {
+      errors.push(`${label}: column "${filter.column}" not found in table "${tableName}"`);
+      return;
+    }
+    if (!FILTER_OPERATORS.includes(filter.operator)) {
+      errors.push(`${label}: unknown operator "${filter.operator}"`);
+      return;
+    }
+    if (filter.operator === 'is_null' || filter.operator === 'not_null') return;
+
+    const values = filter.operator === 'in' ? listValues(filter.value) : [filter.value];
+    if (values.length === 0 || values.some(value => value === undefined || value === null || value === '')) {
+      errors.push(`${label}: a value is required for "${filter.column} ${filter.operator}"`);
+      return;
+    }
+
+    const dataType = column.data_type.toLowerCase();
+    if ((filter.operator === 'like' || filter.operator === 'ilike') &&
+        (NUMERIC_TYPES.includes(dataType) || TEMPORAL_TYPES.includes(dataType))) {
+      errors.push(`${label}: ${filter.operator} only applies to text columns, "${filter.column}" is ${column.data_type}`);
+    } else if (NUMERIC_TYPES.includes(dataType) && values.some(value => !Number.isFinite(Number(value)))) {
+      errors.push(`${label}: "${filter.column}" is ${column.data_type} but the value is not a number`);
+    } else if (TEMPORAL_TYPES.includes(dataType) && values.some(value => Number.isNaN(Date.parse(String(value))))) {
+      errors.push(`${label}: "${filter.column}" is ${column.data_type} but the value is not a date`);
+    } else if (dataType === 'boolean' && values.some(value => !['true', 'false'].includes(String(value).toLowerCase()))) {
+      errors.push(`${label}: "${filter.column}" is boolean - use true or false`);
+    }
+  });
+
+  return errors;
+}
+
+export function describeRowFilter(filter: RowFilter): string {
+  switch (filter.operator) {
+    case 'is_null':
+      return `${filter.column} is null`;
+    case 'not_null':
+      return `${filter.column} is not null`;
+    case 'in':
+      return `${filter.column} in (${listValues(filter.value).join(', ')})`;
+    default:
+      return `${filter.column} ${filter.operator} ${filter.value}`;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * In-process Okapi BM25 index over the same contexts that get embedded,
+ * so exact terms such as regulatory document codes can be matched lexically.
+ */
+
+export interface BM25Config {
+  k1: number;
+  b: number;
+}
+
+export interface LexicalMatch {
+  index: number; // Position of the document passed to build()
+  score: number;
+}
+
+export class BM25Index {
+  private config: BM25Config;
+  private documentTerms: Map<string, number>[] = [];
+  private documentLengths: number[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(config?: Partial<BM25Config>) {
+    this.config = {
+      k1: 1.2,
+      b: 0.75,
+      ...config
+    };
+  }
+
+  // Keeps compound codes like "brdr-2021-15" as one token and also indexes their parts
+  tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const matches = text.toLowerCase().match(/[a-z0-9]+(?:[-_./][a-z0-9]+)*/g) || [];
+
+    for (const match of matches) {
+      tokens.push(match);
+      const parts = match.split(/[-_./]/);
+      if (parts.length > 1) {
+        tokens.push(...parts);
+      }
+    }
+
+    return tokens;
+  }
+
+  build(documents: string[]): void {
+    this.documentTerms = [];
+    this.documentLengths = [];
+    this.documentFrequency.clear();
+
+    for (const document of documents) {
+      const terms = new Map<string, number>();
+      const tokens = this.tokenize(document);
+
+      for (const token of tokens) {
+        terms.set(token, (terms.get(token) || 0) + 1);
+      }
+      for (const term of terms.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+
+      this.documentTerms.push(terms);
+      this.documentLengths.push(tokens.length);
+    }
+
+    const totalLength = this.documentLengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  get size(): number {
+    return this.documentTerms.length;
+  }
+
+  // Scores every indexed document; documents sharing no term with the query score 0
+  score(query: string): number[] {
+    const queryTerms = [...new Set(this.tokenize(query))];
+    const totalDocuments = this.documentTerms.length;
+    const { k1, b } = this.config;
+
+    return this.documentTerms.map((terms, index) => {
+      const lengthNorm = this.averageLength > 0 ? this.documentLengths[index] / this.averageLength : 0;
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = terms.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (totalDocuments - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * lengthNorm));
+      }
+
+      return score;
+    });
+  }
+
+  search(query: string, topK: number = 10): LexicalMatch[] {
+    return this.score(query)
+      .map((score, index) => ({ index, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
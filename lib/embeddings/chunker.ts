@@ -0,0 +1,107 @@
+/**
+ * Splits long row contexts into chunks before embedding, so models with a short
+ * input window (e.g. MiniLM) see the whole document instead of a truncated prefix.
+ * Sizes are counted in whitespace-separated words, not model tokens: a word often splits
+ * into several wordpieces, so keep chunks well under the model's window (MiniLM truncates
+ * at 256 wordpieces, roughly 190 English words).
+ */
+
+export type ChunkStrategy = 'fixed' | 'sentence' | 'paragraph';
+
+export interface ChunkingConfig {
+  strategy: ChunkStrategy;
+  chunkSize: number; // Maximum words per chunk
+  overlap?: number; // Words repeated from the previous chunk; defaults to 0
+}
+
+// Leaves headroom for words that split into several wordpieces under MiniLM's 256 limit
+export const DEFAULT_CHUNK_SIZE = 150;
+
+export class TextChunker {
+  private config: ChunkingConfig;
+
+  constructor(config: ChunkingConfig) {
+    this.config = config;
+  }
+
+  chunk(text: string): string[] {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+
+    switch (this.config.strategy) {
+      case 'sentence':
+        return this.pack(trimmed.split(/(?<=[.!?])\s+|\n+/), ' ');
+      case 'paragraph':
+        return this.pack(trimmed.split(/\n\s*\n/), '\n\n');
+      default:
+        return this.fixedWindows(this.tokenize(trimmed));
+    }
+  }
+
+  private tokenize(text: string): string[] {
+    return text.split(/\s+/).filter(Boolean);
+  }
+
+  private fixedWindows(tokens: string[]): string[] {
+    const size = this.config.chunkSize;
+    const step = Math.max(1, size - (this.config.overlap ?? 0));
+    const windows: string[] = [];
+
+    for (let start = 0; start < tokens.length; start += step) {
+      windows.push(tokens.slice(start, start + size).join(' '));
+      if (start + size >= tokens.length) break;
+    }
+
+    return windows;
+  }
+
+  // Packs whole sentences or paragraphs into chunks; oversized units fall back to fixed windows
+  private pack(units: string[], separator: string): string[] {
+    const size = this.config.chunkSize;
+    const overlap = this.config.overlap ?? 0;
+    const chunks: string[] = [];
+    let current: Array<{ text: string; tokens: number }> = [];
+    let currentTokens = 0;
+
+    const flush = () => {
+      if (current.length > 0) chunks.push(current.map(unit => unit.text).join(separator));
+    };
+
+    for (const text of units.map(unit => unit.trim()).filter(Boolean)) {
+      const tokens = this.tokenize(text).length;
+
+      if (tokens > size) {
+        flush();
+        chunks.push(...this.fixedWindows(this.tokenize(text)));
+        current = [];
+        currentTokens = 0;
+        continue;
+      }
+
+      if (currentTokens + tokens > size && current.length > 0) {
+        flush();
+
+        // Carry trailing units into the next chunk while they fit in the overlap
+        const tail: typeof current = [];
+        let tailTokens = 0;
+        for (let i = current.length - 1; i >= 0; i--) {
+          if (tailTokens + current[i].tokens > overlap) break;
+          tail.unshift(current[i]);
+          tailTokens += current[i].tokens;
+        }
+        while (tail.length > 0 && tailTokens + tokens > size) {
+          tailTokens -= tail.shift()!.tokens;
+        }
+
+        current = tail;
+        currentTokens = tailTokens;
+      }
+
+      current.push({ text, tokens });
+      currentTokens += tokens;
+    }
+
+    flush();
+    return chunks;
+  }
+}
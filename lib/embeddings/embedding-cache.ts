@@ -0,0 +1,139 @@
+/**
+ * On-disk embedding cache. Entries are addressed by a hash of the text and grouped per
+ * namespace (provider, model and pooling), so a model or pooling change never reuses
+ * stale vectors and reruns over unchanged data skip the embedding calls entirely.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface CacheNamespaceInfo {
+  namespace: string; // Directory name: readable provider/model/pooling plus a short hash
+  entries: number;
+  sizeBytes: number;
+}
+
+export interface CacheInfo {
+  directory: string;
+  entries: number;
+  sizeBytes: number;
+  namespaces: CacheNamespaceInfo[];
+}
+
+export const DEFAULT_CACHE_DIRECTORY = path.join(process.cwd(), '.cache', 'embeddings');
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export class EmbeddingCache {
+  private directory: string;
+  private stats: EmbeddingCacheStats = { hits: 0, misses: 0 };
+
+  constructor(directory: string = process.env.EMBEDDING_CACHE_DIR || DEFAULT_CACHE_DIRECTORY) {
+    this.directory = directory;
+  }
+
+  // Keeps the parts readable for inspection; the hash keeps distinct keys from colliding after sanitizing
+  static namespaceFor(parts: Record<string, string | number | boolean>): string {
+    const raw = JSON.stringify(parts);
+    const readable = Object.values(parts).join('__').replace(/[^A-Za-z0-9._-]+/g, '_');
+    return `${readable}__${sha256(raw).slice(0, 8)}`;
+  }
+
+  private entryPath(namespace: string, text: string): string {
+    const hash = sha256(text);
+    return path.join(this.directory, namespace, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  async get(namespace: string, text: string): Promise<number[] | null> {
+    try {
+      const embedding = JSON.parse(await fs.readFile(this.entryPath(namespace, text), 'utf8'));
+      if (Array.isArray(embedding)) {
+        this.stats.hits++;
+        return embedding;
+      }
+    } catch {
+      // Missing or unreadable entries are misses
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  async set(namespace: string, text: string, embedding: number[]): Promise<void> {
+    const file = this.entryPath(namespace, text);
+
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so a concurrent reader never sees a partial file
+      const temp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(embedding));
+      await fs.rename(temp, file);
+    } catch (error) {
+      console.error('Failed to write embedding cache entry:', error);
+    }
+  }
+
+  getStats(): EmbeddingCacheStats {
+    return { ...this.stats };
+  }
+
+  async inspect(): Promise<CacheInfo> {
+    const namespaces: CacheNamespaceInfo[] = [];
+
+    for (const namespace of await this.listDirectories(this.directory)) {
+      const info: CacheNamespaceInfo = { namespace, entries: 0, sizeBytes: 0 };
+
+      for (const shard of await this.listDirectories(path.join(this.directory, namespace))) {
+        const shardPath = path.join(this.directory, namespace, shard);
+        for (const file of await fs.readdir(shardPath)) {
+          if (!file.endsWith('.json')) continue;
+          info.entries++;
+          info.sizeBytes += (await fs.stat(path.join(shardPath, file))).size;
+        }
+      }
+
+      namespaces.push(info);
+    }
+
+    return {
+      directory: this.directory,
+      entries: namespaces.reduce((sum, info) => sum + info.entries, 0),
+      sizeBytes: namespaces.reduce((sum, info) => sum + info.sizeBytes, 0),
+      namespaces
+    };
+  }
+
+  // Clears one namespace, or the whole cache when none is given; returns the entries removed
+  async clear(namespace?: string): Promise<number> {
+    const info = await this.inspect();
+    const targets = namespace
+      ? info.namespaces.filter(item => item.namespace === namespace)
+      : info.namespaces;
+
+    if (namespace && targets.length === 0) {
+      throw new Error(`Unknown cache namespace "${namespace}"`);
+    }
+
+    for (const target of targets) {
+      await fs.rm(path.join(this.directory, target.namespace), { recursive: true, force: true });
+    }
+    return targets.reduce((sum, target) => sum + target.entries, 0);
+  }
+
+  private async listDirectories(directory: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  }
+}
@@ -1,11 +1,77 @@
-import { embed } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { pipeline } from '@xenova/transformers';
+import { BM25Index } from './bm25-index';
+import { ChunkingConfig, TextChunker } from './chunker';
+import { EmbeddingCache, EmbeddingCacheStats } from './embedding-cache';
+import { EmbeddingProvider, EmbeddingProviderType, PoolingStrategy, createEmbeddingProvider } from './embedding-providers';
+import { RateLimitConfig, RateLimiter, RetryConfig, estimateTokens, isRetryableError, withRetry } from './rate-limiter';
 
 export interface EmbeddingConfig {
-  model: 'openai' | 'local';
+  model: EmbeddingProviderType;
   openaiModel?: string;
   localModel?: string;
+  pooling?: PoolingStrategy; // Local models only; defaults to mean
+  normalize?: boolean; // Local models only: L2-normalize the pooled vector; defaults to true
+  queryPrefix?: string; // Prepended to queries before embedding, e.g. "query: " for E5
+  passagePrefix?: string; // Prepended to documents before embedding, e.g. "passage: " for E5
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  compatibleModel?: string; // Model name sent to the OpenAI-compatible endpoint
+  apiKey?: string; // OpenAI-compatible endpoint only
+  batchSize?: number; // Texts per embedding request; defaults per provider
+  concurrency?: number; // Batches in flight at once; defaults per provider
+  cache?: boolean; // Reuse embeddings stored on disk; defaults to true
+  retry?: RetryConfig; // Backoff for transient provider failures
+  rateLimit?: RateLimitConfig; // Requests and tokens per minute; unlimited by default
+}
+
+// OpenAI accepts large batches and parallel requests; the local model shares one CPU,
+// and self-hosted servers get a middle ground
+export const DEFAULT_EMBEDDING_BATCH_SIZE: Record<EmbeddingProviderType, number> = {
+  openai: 100,
+  'openai-compatible': 32,
+  local: 32
+};
+export const DEFAULT_EMBEDDING_CONCURRENCY: Record<EmbeddingProviderType, number> = {
+  openai: 4,
+  'openai-compatible': 2,
+  local: 1
+};
+const CACHE_LOOKUP_BATCH = 256;
+
+export interface ContextTemplate {
+  template?: string; // e.g. "{title}\n\n{body}"; placeholders for columns outside the combination are left empty
+  includeLabels?: boolean; // Prefix fields with "column: " when no template is given; defaults to true
+  separator?: string; // Joins fields when no template is given; defaults to " | "
+  fieldOrder?: string[]; // Columns listed here come first, in this order
+  maxFieldLength?: number; // Truncate each field to this many characters
+  jsonFormat?: 'compact' | 'pretty' | 'flatten'; // How object values are rendered; defaults to compact
+}
+
+export interface FusionConfig {
+  method: 'weighted-sum' | 'max' | 'rrf';
+  weights?: Record<string, number>; // Per-column weight; columns not listed weigh 1
+  rrfK?: number; // Reciprocal rank fusion constant; defaults to 60
+}
+
+export type RetrievalMode = 'concatenated' | 'field-level';
+
+export type RetrieverType = 'vector' | 'lexical' | 'hybrid';
+
+export interface HybridConfig {
+  method: 'alpha' | 'rrf';
+  alpha?: number; // Weight of the vector score in alpha blending; defaults to 0.5
+  rrfK?: number; // Reciprocal rank fusion constant; defaults to 60
+}
+
+export interface TrainingOptions {
+  idColumn?: string;
+  contextTemplate?: ContextTemplate;
+  mode?: RetrievalMode; // Defaults to concatenated
+  retriever?: RetrieverType; // Defaults to vector; lexical skips embedding entirely
+  chunking?: ChunkingConfig; // Concatenated mode only; each chunk is retrieved on its own
+}
+
+export interface QueryOptions {
+  fusion?: FusionConfig;
+  hybrid?: HybridConfig;
 }
 
 export interface ColumnCombination {
@@ -18,6 +84,8 @@ export interface EmbeddingResult {
   combination: ColumnCombination;
   embedding: number[];
   context: string;
+  fieldEmbeddings?: Record<string, number[]>; // Field-level mode: one embedding per column
+  chunkIndex?: number; // Set when chunked; id and metadata.rowIndex point at the parent row
   yValue: any;
   metadata: Record<string, any>;
 }
@@ -26,37 +94,68 @@ export interface TrainingData {
   embeddings: EmbeddingResult[];
   combination: ColumnCombination;
   totalRows: number;
+  mode: RetrievalMode;
+  retriever: RetrieverType;
+  lexicalIndex?: BM25Index; // Built over the contexts for lexical and hybrid retrieval
+  chunking?: ChunkingConfig;
+  failedRows: number[]; // Rows left out because embedding failed even after retries
+}
+
+export interface RetrievalMatch {
+  result: EmbeddingResult;
+  similarity: number; // The ranking score of the active retriever
+  fieldSimilarities?: Record<string, number>;
+  vectorScore?: number;
+  lexicalScore?: number;
 }
 
 export class EmbeddingGenerator {
   private config: EmbeddingConfig;
-  private localEmbeddingPipeline: any = null;
+  private provider: EmbeddingProvider;
+  private cache: EmbeddingCache | null;
+  private rateLimiter: RateLimiter | null;
 
   constructor(config: EmbeddingConfig) {
     this.config = config;
+    this.provider = createEmbeddingProvider(config);
+    this.cache = config.cache === false ? null : new EmbeddingCache();
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : null;
+  }
+
+  // Every provider call goes through the limiter, and each retry counts against it again
+  private callProvider<T>(texts: string[], operation: () => Promise<T>): Promise<T> {
+    return withRetry(async () => {
+      await this.rateLimiter?.acquire(estimateTokens(texts));
+      return operation();
+    }, this.config.retry, `Embedding request for ${texts.length} text(s)`);
+  }
+
+  getCacheStats(): EmbeddingCacheStats {
+    return this.cache ? this.cache.getStats() : { hits: 0, misses: 0 };
+  }
+
+  // Everything that changes the vector for a given text belongs in the cache key
+  private cacheNamespace(): string {
+    return EmbeddingCache.namespaceFor(this.provider.cacheKey());
   }
 
   async initialize(): Promise<void> {
-    if (this.config.model === 'local') {
-      try {
-        this.localEmbeddingPipeline = await pipeline(
-          'feature-extraction',
-          this.config.localModel || 'Xenova/all-MiniLM-L6-v2'
-        );
-      } catch (error) {
-        console.error('Failed to initialize local embedding model:', error);
-        throw error;
-      }
+    try {
+      await this.provider.initialize();
+    } catch (error) {
+      console.error(`Failed to initialize embedding provider ${this.provider.name}:`, error);
+      throw error;
     }
   }
 
+  // Enumerates all 2^n - 1 subsets; callers decide how many columns to pass
   generateColumnCombinations(columns: string[]): ColumnCombination[] {
     const combinations: ColumnCombination[] = [];
-    const n = Math.min(columns.length, 5); // Limit to 5 columns as requested
+    const n = columns.length;
 
     // Generate all possible combinations from 1 to n columns
     for (let i = 1; i <= n; i++) {
-      const combos = this.getCombinations(columns.slice(0, n), i);
+      const combos = this.getCombinations(columns, i);
       combos.forEach(combo => {
         combinations.push({
           columns: combo,
@@ -86,88 +185,289 @@ export class EmbeddingGenerator {
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
+    const namespace = this.cacheNamespace();
+    const cached = this.cache ? await this.cache.get(namespace, text) : null;
+    if (cached) return cached;
+
+    const embedding = await this.computeEmbedding(text);
+    await this.cache?.set(namespace, text, embedding);
+    return embedding;
+  }
+
+  private async computeEmbedding(text: string): Promise<number[]> {
     try {
-      if (this.config.model === 'openai') {
-        const { embedding } = await embed({
-          model: openai.embedding(this.config.openaiModel || 'text-embedding-3-small'),
-          value: text,
-        });
-        return embedding;
-      } else {
-        if (!this.localEmbeddingPipeline) {
-          throw new Error('Local embedding pipeline not initialized');
-        }
-        
-        const result = await this.localEmbeddingPipeline(text);
-        // Convert to flat array if needed
-        return Array.isArray(result.data) ? result.data : Array.from(result.data);
-      }
+      const [embedding] = await this.embedBatch([text]);
+      return embedding;
     } catch (error) {
       console.error('Failed to generate embedding:', error);
       throw error;
     }
   }
 
-  createContext(row: Record<string, any>, combination: ColumnCombination): string {
-    const contextParts = combination.columns
+  // One provider call for all the texts; remote providers are retried and rate limited
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!this.provider.remote) return this.provider.embed(texts);
+    return this.callProvider(texts, () => this.provider.embed(texts));
+  }
+
+  /**
+   * Embeds texts in batches with several batches in flight, skipping cached texts. A batch
+   * rejected outright is retried text by text so a bad input only loses its own slot (left null);
+   * a batch that still fails after transient-error retries is left null as a whole.
+   */
+  private async embedAll(texts: string[], label: string): Promise<Array<number[] | null>> {
+    const batchSize = this.config.batchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE[this.config.model];
+    const concurrency = this.config.concurrency ?? DEFAULT_EMBEDDING_CONCURRENCY[this.config.model];
+    const namespace = this.cacheNamespace();
+    const results: Array<number[] | null> = new Array(texts.length).fill(null);
+    if (this.cache) {
+      // Bounded lookups so large tables don't open thousands of files at once
+      for (let start = 0; start < texts.length; start += CACHE_LOOKUP_BATCH) {
+        const found = await Promise.all(
+          texts.slice(start, start + CACHE_LOOKUP_BATCH).map(text => this.cache!.get(namespace, text))
+        );
+        found.forEach((vector, offset) => {
+          results[start + offset] = vector;
+        });
+      }
+    }
+
+    // Only the misses are sent to the model
+    const pending = texts.flatMap((_, index) => (results[index] ? [] : [index]));
+    if (pending.length < texts.length) {
+      console.log(`Embedding cache: ${texts.length - pending.length}/${texts.length} texts cached for combination: ${label}`);
+    }
+    const store = async (index: number, vector: number[]) => {
+      results[index] = vector;
+      await this.cache?.set(namespace, texts[index], vector);
+    };
+
+    const starts: number[] = [];
+    for (let start = 0; start < pending.length; start += batchSize) starts.push(start);
+
+    let next = 0;
+    let embedded = 0;
+    const worker = async () => {
+      while (next < starts.length) {
+        const start = starts[next++];
+        const batch = pending.slice(start, start + batchSize);
+
+        try {
+          const vectors = await this.embedBatch(batch.map(index => texts[index]));
+          await Promise.all(batch.map((index, offset) => store(index, vectors[offset])));
+        } catch (error) {
+          if (isRetryableError(error)) {
+            console.error(`Embedding batch of ${batch.length} texts failed after retries:`, error);
+            embedded += batch.length;
+            continue;
+          }
+
+          console.error(`Embedding batch of ${batch.length} texts failed, retrying one at a time:`, error);
+          for (const index of batch) {
+            try {
+              const [vector] = await this.embedBatch([texts[index]]);
+              await store(index, vector);
+            } catch (textError) {
+              console.error('Failed to generate embedding:', textError);
+            }
+          }
+        }
+
+        embedded += batch.length;
+        console.log(`Embedded ${embedded}/${pending.length} texts for combination: ${label}`);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, starts.length) }, worker));
+    return results;
+  }
+
+  createContext(
+    row: Record<string, any>,
+    combination: ColumnCombination,
+    contextTemplate?: ContextTemplate
+  ): string {
+    const template = contextTemplate || {};
+
+    if (template.template) {
+      const rendered = template.template.replace(/\{([^{}]+)\}/g, (_, col: string) => {
+        const column = col.trim();
+        if (!combination.columns.includes(column)) return '';
+        return this.formatFieldValue(row[column], template);
+      });
+
+      // Drop blank lines left behind by columns outside this combination
+      return rendered.replace(/\n{3,}/g, '\n\n').trim();
+    }
+
+    const order = template.fieldOrder || [];
+    const columns = [
+      ...order.filter(col => combination.columns.includes(col)),
+      ...combination.columns.filter(col => !order.includes(col))
+    ];
+
+    const contextParts = columns
       .filter(col => row[col] !== null && row[col] !== undefined)
       .map(col => {
-        const value = row[col];
-        return `${col}: ${typeof value === 'object' ? JSON.stringify(value) : value}`;
+        const value = this.formatFieldValue(row[col], template);
+        return template.includeLabels === false ? value : `${col}: ${value}`;
       });
 
-    return contextParts.join(' | ');
+    return contextParts.join(template.separator ?? ' | ');
+  }
+
+  private formatFieldValue(value: any, template: ContextTemplate): string {
+    if (value === null || value === undefined) return '';
+
+    let text: string;
+    if (typeof value === 'object') {
+      switch (template.jsonFormat) {
+        case 'pretty':
+          text = JSON.stringify(value, null, 2);
+          break;
+        case 'flatten':
+          text = this.flattenObject(value).join(', ');
+          break;
+        default:
+          text = JSON.stringify(value);
+      }
+    } else {
+      text = String(value);
+    }
+
+    if (template.maxFieldLength && text.length > template.maxFieldLength) {
+      text = text.slice(0, template.maxFieldLength);
+    }
+
+    return text;
+  }
+
+  private flattenObject(value: any, prefix: string = ''): string[] {
+    if (value === null || typeof value !== 'object') {
+      return [`${prefix}: ${value}`];
+    }
+
+    return Object.entries(value).flatMap(([key, child]) =>
+      this.flattenObject(child, prefix ? `${prefix}.${key}` : key)
+    );
   }
 
   async processTrainingData(
     data: Record<string, any>[],
     combination: ColumnCombination,
     yColumn: string,
-    idColumn?: string
+    options: TrainingOptions = {}
   ): Promise<TrainingData> {
+    const { idColumn, contextTemplate } = options;
+    const mode = options.mode ?? 'concatenated';
+    const retriever = options.retriever ?? 'vector';
+    const chunking = mode === 'concatenated' ? options.chunking : undefined;
+    const chunker = chunking ? new TextChunker(chunking) : null;
     const embeddings: EmbeddingResult[] = [];
+    const failedRows: number[] = [];
 
+    // Render every row first so all texts can be embedded in batches
+    const pending: Array<{ rowIndex: number; chunks: string[]; fieldTexts: Record<string, string> }> = [];
     for (let i = 0; i < data.length; i++) {
       const row = data[i];
-      const context = this.createContext(row, combination);
+      const context = this.createContext(row, combination, contextTemplate);
       
       if (!context.trim()) {
         console.warn(`Skipping row ${i} - no valid context generated`);
         continue;
       }
 
-      try {
-        const embedding = await this.generateEmbedding(context);
-        
+      // Field-level mode embeds every column on its own
+      const fieldTexts: Record<string, string> = {};
+      if (mode === 'field-level') {
+        for (const column of combination.columns) {
+          const fieldContext = this.createContext(row, { columns: [column], name: column }, contextTemplate);
+          if (fieldContext.trim()) fieldTexts[column] = fieldContext;
+        }
+      }
+
+      pending.push({ rowIndex: i, chunks: chunker ? chunker.chunk(context) : [context], fieldTexts });
+    }
+
+    // Lexical-only retrieval never looks at vectors
+    const textsOf = (entry: typeof pending[number]) =>
+      retriever === 'lexical' ? [] : mode === 'field-level' ? Object.values(entry.fieldTexts) : entry.chunks;
+    // Instruction-tuned models (E5, BGE) expect documents marked as passages; stored contexts stay unprefixed
+    const passagePrefix = this.config.passagePrefix ?? '';
+    const vectors = await this.embedAll(pending.flatMap(textsOf).map(text => passagePrefix + text), combination.name);
+
+    let cursor = 0;
+    for (const entry of pending) {
+      const row = data[entry.rowIndex];
+      const rowVectors = vectors.slice(cursor, cursor + textsOf(entry).length);
+      cursor += rowVectors.length;
+
+      if (rowVectors.some(vector => vector === null)) {
+        console.error(`Failed to process row ${entry.rowIndex}: embedding failed`);
+        failedRows.push(entry.rowIndex);
+        continue;
+      }
+
+      let fieldEmbeddings: Record<string, number[]> | undefined;
+      if (retriever !== 'lexical' && mode === 'field-level') {
+        // The row vector is the mean of its field vectors
+        fieldEmbeddings = Object.fromEntries(
+          Object.keys(entry.fieldTexts).map((column, index) => [column, rowVectors[index]!])
+        );
+      }
+
+      entry.chunks.forEach((chunk, c) => {
         embeddings.push({
-          id: idColumn ? row[idColumn] : `row_${i}`,
+          id: idColumn ? row[idColumn] : `row_${entry.rowIndex}`,
           combination,
-          embedding,
-          context,
+          embedding: retriever === 'lexical'
+            ? []
+            : fieldEmbeddings
+              ? this.averageVectors(Object.values(fieldEmbeddings))
+              : rowVectors[c]!,
+          context: chunk,
+          fieldEmbeddings,
+          chunkIndex: chunker ? c : undefined,
           yValue: row[yColumn],
           metadata: {
             originalRow: row,
-            rowIndex: i
+            rowIndex: entry.rowIndex,
+            ...(chunker ? { chunkCount: entry.chunks.length } : {})
           }
         });
+      });
+    }
 
-        // Progress logging
-        if ((i + 1) % 10 === 0) {
-          console.log(`Processed ${i + 1}/${data.length} rows for combination: ${combination.name}`);
-        }
-      } catch (error) {
-        console.error(`Failed to process row ${i}:`, error);
-        continue;
-      }
+    let lexicalIndex: BM25Index | undefined;
+    if (retriever !== 'vector') {
+      lexicalIndex = new BM25Index();
+      lexicalIndex.build(embeddings.map(item => item.context));
     }
 
     return {
       embeddings,
       combination,
-      totalRows: data.length
+      totalRows: data.length,
+      mode,
+      retriever,
+      lexicalIndex,
+      chunking,
+      failedRows
     };
   }
 
+  private averageVectors(vectors: number[][]): number[] {
+    if (vectors.length === 0) return [];
+
+    const sum = new Array(vectors[0].length).fill(0);
+    for (const vector of vectors) {
+      for (let i = 0; i < vector.length; i++) {
+        sum[i] += vector[i];
+      }
+    }
+    return sum.map(value => value / vectors.length);
+  }
+
   calculateCosineSimilarity(a: number[], b: number[]): number {
     if (a.length !== b.length) {
       throw new Error('Vectors must have the same length');
@@ -196,8 +496,13 @@ export class EmbeddingGenerator {
   async findBestMatch(
     queryEmbedding: number[],
     trainingData: TrainingData,
-    topK: number = 1
-  ): Promise<{ result: EmbeddingResult; similarity: number }[]> {
+    topK: number = 1,
+    fusion?: FusionConfig
+  ): Promise<RetrievalMatch[]> {
+    if (trainingData.mode === 'field-level') {
+      return this.findBestFusedMatch(queryEmbedding, trainingData, topK, fusion || { method: 'weighted-sum' });
+    }
+
     const similarities = trainingData.embeddings.map(item => ({
       result: item,
       similarity: this.calculateCosineSimilarity(queryEmbedding, item.embedding)
@@ -209,12 +514,170 @@ export class EmbeddingGenerator {
     return similarities.slice(0, topK);
   }
 
+  // Scores each field separately and fuses them into one ranking score per row
+  private findBestFusedMatch(
+    queryEmbedding: number[],
+    trainingData: TrainingData,
+    topK: number,
+    fusion: FusionConfig
+  ): RetrievalMatch[] {
+    const columns = trainingData.combination.columns;
+    const weightOf = (column: string) => fusion.weights?.[column] ?? 1;
+
+    const matches: RetrievalMatch[] = trainingData.embeddings.map(item => {
+      const fieldSimilarities: Record<string, number> = {};
+      for (const column of columns) {
+        const fieldEmbedding = item.fieldEmbeddings?.[column];
+        if (fieldEmbedding) {
+          fieldSimilarities[column] = this.calculateCosineSimilarity(queryEmbedding, fieldEmbedding);
+        }
+      }
+      return { result: item, similarity: 0, fieldSimilarities };
+    });
+
+    if (fusion.method === 'rrf') {
+      const rrfK = fusion.rrfK ?? 60;
+
+      for (const column of columns) {
+        const ranked = matches
+          .filter(match => match.fieldSimilarities?.[column] !== undefined)
+          .sort((a, b) => b.fieldSimilarities![column] - a.fieldSimilarities![column]);
+
+        ranked.forEach((match, index) => {
+          match.similarity += weightOf(column) / (rrfK + index + 1);
+        });
+      }
+    } else {
+      for (const match of matches) {
+        const scores = Object.entries(match.fieldSimilarities || {});
+
+        if (fusion.method === 'max') {
+          match.similarity = scores.length > 0
+            ? Math.max(...scores.map(([column, score]) => weightOf(column) * score))
+            : 0;
+        } else {
+          // Weighted mean over all columns; a missing field contributes 0
+          const totalWeight = columns.reduce((sum, column) => sum + weightOf(column), 0);
+          const weighted = scores.reduce((sum, [column, score]) => sum + weightOf(column) * score, 0);
+          match.similarity = totalWeight > 0 ? weighted / totalWeight : 0;
+        }
+      }
+    }
+
+    matches.sort((a, b) => b.similarity - a.similarity);
+    return matches.slice(0, topK);
+  }
+
+  findLexicalMatch(query: string, trainingData: TrainingData, topK: number = 1): RetrievalMatch[] {
+    if (!trainingData.lexicalIndex) {
+      throw new Error('Lexical index not built - process training data with a lexical or hybrid retriever');
+    }
+
+    return trainingData.lexicalIndex.search(query, topK).map(match => ({
+      result: trainingData.embeddings[match.index],
+      similarity: match.score,
+      lexicalScore: match.score
+    }));
+  }
+
+  // Blends the full vector and lexical rankings, then cuts to topK
+  private fuseHybridMatches(
+    vectorMatches: RetrievalMatch[],
+    lexicalScores: number[],
+    trainingData: TrainingData,
+    topK: number,
+    hybrid: HybridConfig
+  ): RetrievalMatch[] {
+    const indexOf = new Map(trainingData.embeddings.map((item, index) => [item, index]));
+    const matches: RetrievalMatch[] = vectorMatches.map(match => ({
+      ...match,
+      vectorScore: match.similarity,
+      lexicalScore: lexicalScores[indexOf.get(match.result)!]
+    }));
+
+    if (hybrid.method === 'rrf') {
+      const rrfK = hybrid.rrfK ?? 60;
+      const lexicalRank = new Map(
+        [...matches]
+          .sort((a, b) => b.lexicalScore! - a.lexicalScore!)
+          .map((match, index) => [match, index + 1])
+      );
+
+      // vectorMatches arrive sorted by vector score
+      matches.forEach((match, index) => {
+        match.similarity = 1 / (rrfK + index + 1) + 1 / (rrfK + lexicalRank.get(match)!);
+      });
+    } else {
+      const alpha = hybrid.alpha ?? 0.5;
+      const normalize = (values: number[]) => {
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        return values.map(value => (max === min ? 0 : (value - min) / (max - min)));
+      };
+      const vector = normalize(matches.map(match => match.vectorScore!));
+      const lexical = normalize(matches.map(match => match.lexicalScore!));
+
+      matches.forEach((match, index) => {
+        match.similarity = alpha * vector[index] + (1 - alpha) * lexical[index];
+      });
+    }
+
+    matches.sort((a, b) => b.similarity - a.similarity);
+    return matches.slice(0, topK);
+  }
+
   async processQuery(
     query: string,
     trainingData: TrainingData,
-    topK: number = 1
-  ): Promise<{ result: EmbeddingResult; similarity: number }[]> {
-    const queryEmbedding = await this.generateEmbedding(query);
-    return this.findBestMatch(queryEmbedding, trainingData, topK);
+    topK: number = 1,
+    options: QueryOptions = {}
+  ): Promise<RetrievalMatch[]> {
+    if (!trainingData.chunking) {
+      return this.rankCandidates(query, trainingData, topK, options);
+    }
+
+    // Rank every chunk, then keep each row's best chunk so topK counts rows
+    const chunkMatches = await this.rankCandidates(query, trainingData, trainingData.embeddings.length, options);
+    const seenRows = new Set<number>();
+    return chunkMatches
+      .filter(match => {
+        const rowIndex = match.result.metadata.rowIndex;
+        if (seenRows.has(rowIndex)) return false;
+        seenRows.add(rowIndex);
+        return true;
+      })
+      .slice(0, topK);
+  }
+
+  private async rankCandidates(
+    query: string,
+    trainingData: TrainingData,
+    topK: number,
+    options: QueryOptions
+  ): Promise<RetrievalMatch[]> {
+    if (trainingData.retriever === 'lexical') {
+      return this.findLexicalMatch(query, trainingData, topK);
+    }
+
+    // The query side of an asymmetric prefix pair; lexical scoring still sees the raw query
+    const queryEmbedding = await this.generateEmbedding(`${this.config.queryPrefix ?? ''}${query}`);
+
+    if (trainingData.retriever === 'hybrid' && trainingData.lexicalIndex) {
+      const vectorMatches = await this.findBestMatch(
+        queryEmbedding,
+        trainingData,
+        trainingData.embeddings.length,
+        options.fusion
+      );
+      return this.fuseHybridMatches(
+        vectorMatches,
+        trainingData.lexicalIndex.score(query),
+        trainingData,
+        topK,
+        options.hybrid || { method: 'alpha' }
+      );
+    }
+
+    return this.findBestMatch(queryEmbedding, trainingData, topK, options.fusion);
   }
 }
@@ -0,0 +1,171 @@
+/**
+ * Embedding backends behind one interface, so the generator only deals with batches of
+ * texts. Adding a backend means a new provider class and a case in the factory.
+ */
+
+import { embedMany } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { pipeline } from '@xenova/transformers';
+import { EmbeddingConfig } from './embedding-generator';
+
+export type EmbeddingProviderType = 'openai' | 'local' | 'openai-compatible';
+
+export type PoolingStrategy = 'mean' | 'cls';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly remote: boolean; // Remote providers go through retries and rate limiting
+  cacheKey(): Record<string, string | number | boolean>; // Everything that changes the vectors
+  initialize(): Promise<void>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// Carries the HTTP status and headers so retries can tell a 429 from a bad request
+export class EmbeddingRequestError extends Error {
+  statusCode: number;
+  responseHeaders: Record<string, string>;
+
+  constructor(message: string, statusCode: number, responseHeaders: Record<string, string>) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+    this.statusCode = statusCode;
+    this.responseHeaders = responseHeaders;
+  }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly remote = true;
+  private model: string;
+
+  constructor(config: EmbeddingConfig) {
+    this.model = config.openaiModel || DEFAULT_OPENAI_EMBEDDING_MODEL;
+    this.name = `openai:${this.model}`;
+  }
+
+  cacheKey() {
+    return { provider: 'openai', model: this.model };
+  }
+
+  async initialize(): Promise<void> {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { embeddings } = await embedMany({
+      model: openai.embedding(this.model),
+      values: texts,
+      maxRetries: 0, // Retries are handled by the generator
+    });
+    return embeddings;
+  }
+}
+
+// Any server exposing POST {baseUrl}/embeddings: Ollama, vLLM, LM Studio, text-embeddings-inference
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly remote = true;
+  private config: EmbeddingConfig;
+
+  // A missing base URL or model is reported by validateConfiguration, so construction never throws
+  constructor(config: EmbeddingConfig) {
+    this.config = config;
+    this.name = `openai-compatible:${config.compatibleModel}`;
+  }
+
+  cacheKey() {
+    return {
+      provider: 'openai-compatible',
+      baseUrl: (this.config.baseUrl || '').replace(/\/+$/, ''),
+      model: this.config.compatibleModel || ''
+    };
+  }
+
+  async initialize(): Promise<void> {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.config.baseUrl || !this.config.compatibleModel) {
+      throw new Error('OpenAI-compatible embeddings require a base URL and a model');
+    }
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.config.compatibleModel,
+        input: texts
+      })
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingRequestError(
+        `Embedding request failed: ${response.status} ${await response.text()}`,
+        response.status,
+        Object.fromEntries(response.headers.entries())
+      );
+    }
+
+    const data = await response.json();
+    const items: Array<{ index?: number; embedding: number[] }> = data.data || [];
+    if (items.length !== texts.length) {
+      throw new Error(`Embedding endpoint returned ${items.length} embeddings for ${texts.length} inputs`);
+    }
+
+    // The spec allows any order; index says which input each vector belongs to
+    return [...items]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding);
+  }
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly remote = false;
+  private model: string;
+  private pooling: PoolingStrategy;
+  private normalize: boolean;
+  private extractor: any = null;
+
+  constructor(config: EmbeddingConfig) {
+    this.model = config.localModel || DEFAULT_LOCAL_EMBEDDING_MODEL;
+    this.pooling = config.pooling ?? 'mean';
+    this.normalize = config.normalize ?? true;
+    this.name = `local:${this.model}`;
+  }
+
+  cacheKey() {
+    return { provider: 'local', model: this.model, pooling: this.pooling, normalize: this.normalize };
+  }
+
+  async initialize(): Promise<void> {
+    this.extractor = await pipeline('feature-extraction', this.model);
+  }
+
+  // Pooling reduces the token vectors to one fixed-size vector per text (mean pooling
+  // respects the attention mask), so padded batches produce the same vectors as single texts
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.extractor) {
+      throw new Error('Local embedding pipeline not initialized');
+    }
+
+    const output = await this.extractor(texts, { pooling: this.pooling, normalize: this.normalize });
+    return output.tolist();
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.model) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config);
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingProvider(config);
+    case 'local':
+      return new LocalEmbeddingProvider(config);
+    default:
+      throw new Error(`Unknown embedding provider "${config.model}"`);
+  }
+}
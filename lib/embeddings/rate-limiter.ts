@@ -0,0 +1,124 @@
+/**
+ * Keeps embedding providers usable under load: transient failures (429, 5xx, network)
+ * are retried with exponential backoff and full jitter, and an optional sliding-window
+ * limiter keeps requests and tokens per minute under the provider's quota.
+ */
+
+export interface RetryConfig {
+  maxRetries?: number; // Retries after the first attempt; defaults to 5
+  initialDelayMs?: number; // Backoff ceiling for the first retry, doubled per attempt; defaults to 500
+  maxDelayMs?: number; // Cap on the backoff ceiling; defaults to 30000
+}
+
+export interface RateLimitConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number; // Estimated from text length, see estimateTokens
+}
+
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxRetries: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+const WINDOW_MS = 60000;
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET'];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Roughly 4 characters per token for English text; close enough to stay under a TPM quota
+export function estimateTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+}
+
+export function isRetryableError(error: any): boolean {
+  if (!error) return false;
+  if (error.isRetryable === true) return true;
+
+  const status = error.statusCode ?? error.status;
+  if (status === 408 || status === 429 || (status >= 500 && status < 600)) return true;
+
+  const code = error.code ?? error.cause?.code;
+  if (RETRYABLE_NETWORK_CODES.includes(code)) return true;
+
+  // fetch rejects with a bare TypeError when the connection drops
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+// Honours a Retry-After header (seconds or HTTP date) when the provider sends one
+function retryAfterMs(error: any): number | null {
+  const header = error?.responseHeaders?.['retry-after'];
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  config: RetryConfig = {},
+  label: string = 'Request'
+): Promise<T> {
+  const { maxRetries, initialDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_CONFIG, ...config };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+      // Full jitter: a random delay up to the exponential ceiling spreads out concurrent retries
+      const ceiling = Math.min(maxDelayMs, initialDelayMs * 2 ** attempt);
+      const delay = Math.min(maxDelayMs, retryAfterMs(error) ?? Math.random() * ceiling);
+      console.warn(
+        `${label} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${Math.round(delay)}ms:`,
+        error instanceof Error ? error.message : error
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private requests: number[] = [];
+  private tokens: Array<{ time: number; tokens: number }> = [];
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+  }
+
+  // Waits until one more request of this size fits in the last minute's budget
+  async acquire(tokens: number): Promise<void> {
+    const { requestsPerMinute, tokensPerMinute } = this.config;
+
+    while (true) {
+      const now = Date.now();
+      this.requests = this.requests.filter(time => now - time < WINDOW_MS);
+      this.tokens = this.tokens.filter(entry => now - entry.time < WINDOW_MS);
+
+      const usedTokens = this.tokens.reduce((sum, entry) => sum + entry.tokens, 0);
+      const requestsFit = !requestsPerMinute || this.requests.length < requestsPerMinute;
+      // A request larger than the whole budget still goes out once the window is empty
+      const tokensFit = !tokensPerMinute || usedTokens + tokens <= tokensPerMinute || this.tokens.length === 0;
+
+      if (requestsFit && tokensFit) {
+        this.requests.push(now);
+        this.tokens.push({ time: now, tokens });
+        return;
+      }
+
+      // Sleep until the oldest entry blocking us leaves the window
+      const oldest = Math.min(
+        requestsFit ? Infinity : this.requests[0],
+        tokensFit ? Infinity : this.tokens[0].time
+      );
+      await sleep(oldest + WINDOW_MS - now + 1);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { AutoModelForSequenceClassification, AutoTokenizer } from '@xenova/transformers';
+import { RetrievalMatch } from './embedding-generator';
+
+export interface RerankerConfig {
+  model?: string; // Cross-encoder model; defaults to Xenova/ms-marco-MiniLM-L-6-v2
+  candidates?: number; // First-stage candidates passed to the cross-encoder; defaults to 20
+}
+
+export interface RerankedMatch extends RetrievalMatch {
+  rerankScore: number;
+  retrievalRank: number; // 1-based rank before reranking
+}
+
+export const DEFAULT_RERANKER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+export const DEFAULT_RERANK_CANDIDATES = 20;
+
+export class CrossEncoderReranker {
+  private model: string;
+  private tokenizer: any = null;
+  private classifier: any = null;
+
+  constructor(config: RerankerConfig = {}) {
+    this.model = config.model || DEFAULT_RERANKER_MODEL;
+  }
+
+  get modelName(): string {
+    return this.model;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.tokenizer = await AutoTokenizer.from_pretrained(this.model);
+      this.classifier = await AutoModelForSequenceClassification.from_pretrained(this.model);
+    } catch (error) {
+      console.error('Failed to initialize reranker model:', error);
+      throw error;
+    }
+
+    const labels = Object.keys(this.classifier.config?.id2label ?? {}).length;
+    if (labels > 2) {
+      throw new Error(`${this.model} has ${labels} output labels - rerankers need a relevance head with 1 or 2 labels`);
+    }
+  }
+
+  // Scores each (query, context) pair jointly; higher means more relevant
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (!this.tokenizer || !this.classifier) {
+      throw new Error('Reranker not initialized');
+    }
+    if (passages.length === 0) return [];
+
+    const inputs = this.tokenizer(new Array(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true
+    });
+    const { logits } = await this.classifier(inputs);
+    const values = Array.from(logits.data as ArrayLike<number>);
+    const labels = logits.dims[1] ?? 1;
+
+    // Single-logit relevance heads give one value per pair; two-label heads are scored by the
+    // positive class's log-odds, which orders pairs the same way as its softmax probability
+    switch (labels) {
+      case 1:
+        return values;
+      case 2:
+        return passages.map((_, index) => values[index * 2 + 1] - values[index * 2]);
+      default:
+        throw new Error(`${this.model} returned ${labels} logits per pair - expected 1 or 2`);
+    }
+  }
+
+  async rerank(query: string, matches: RetrievalMatch[], topK: number): Promise<RerankedMatch[]> {
+    const scores = await this.score(query, matches.map(match => match.result.context));
+
+    return matches
+      .map((match, index) => ({
+        ...match,
+        rerankScore: scores[index],
+        retrievalRank: index + 1
+      }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, topK);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Optional answer synthesis stage: the retrieved contexts are rendered into a
+ * prompt and passed to a pluggable generator instead of returning the top row's y value.
+ */
+
+import { generateText } from 'ai';
+import { openai } from '@ai-sdk/openai';
+
+export type GeneratorProvider = 'ai-sdk' | 'openai-compatible' | 'mock';
+
+export interface GenerationConfig {
+  provider: GeneratorProvider;
+  model?: string; // Defaults to gpt-4o-mini for the ai SDK
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey?: string; // OpenAI-compatible endpoint only
+  promptTemplate?: string; // Uses {context} and {query} placeholders
+  systemPrompt?: string;
+  contexts?: number; // Retrieved contexts included in the prompt; defaults to topK
+  includeAnswers?: boolean; // Add each retrieved row's y value under its context
+  temperature?: number; // Defaults to 0
+  maxTokens?: number;
+}
+
+export interface GenerationContext {
+  context: string;
+  answer?: any; // The retrieved row's y value
+}
+
+export interface GenerationRequest {
+  query: string;
+  prompt: string;
+  system?: string;
+  contexts: GenerationContext[];
+}
+
+export interface AnswerGenerator {
+  readonly name: string;
+  generate(request: GenerationRequest): Promise<string>;
+}
+
+export const DEFAULT_PROMPT_TEMPLATE =
+  'Answer the question using only the context below.\n\n' +
+  'Context:\n{context}\n\n' +
+  'Question: {query}\n' +
+  'Answer:';
+
+export function buildPrompt(
+  query: string,
+  contexts: GenerationContext[],
+  config: Pick<GenerationConfig, 'promptTemplate' | 'includeAnswers'> = {}
+): string {
+  const renderedContexts = contexts
+    .map((item, index) => {
+      const answer = config.includeAnswers && item.answer !== undefined && item.answer !== null
+        ? `\nAnswer: ${typeof item.answer === 'object' ? JSON.stringify(item.answer) : item.answer}`
+        : '';
+      return `[${index + 1}] ${item.context}${answer}`;
+    })
+    .join('\n\n');
+
+  // Single pass so placeholder-like text inside contexts is left alone
+  return (config.promptTemplate || DEFAULT_PROMPT_TEMPLATE).replace(
+    /\{(context|query)\}/g,
+    (_, key: string) => (key === 'context' ? renderedContexts : query)
+  );
+}
+
+export class AISDKGenerator implements AnswerGenerator {
+  readonly name: string;
+  private config: GenerationConfig;
+
+  constructor(config: GenerationConfig) {
+    this.config = config;
+    this.name = `ai-sdk:${config.model || 'gpt-4o-mini'}`;
+  }
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const { text } = await generateText({
+      model: openai(this.config.model || 'gpt-4o-mini'),
+      system: request.system,
+      prompt: request.prompt,
+      temperature: this.config.temperature ?? 0,
+      maxTokens: this.config.maxTokens
+    });
+    return text.trim();
+  }
+}
+
+export class OpenAICompatibleGenerator implements AnswerGenerator {
+  readonly name: string;
+  private config: GenerationConfig;
+
+  constructor(config: GenerationConfig) {
+    if (!config.baseUrl || !config.model) {
+      throw new Error('OpenAI-compatible generator requires a base URL and a model');
+    }
+    this.config = config;
+    this.name = `openai-compatible:${config.model}`;
+  }
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    const response = await fetch(`${this.config.baseUrl!.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        temperature: this.config.temperature ?? 0,
+        max_tokens: this.config.maxTokens
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Generation request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return String(data.choices?.[0]?.message?.content ?? '').trim();
+  }
+}
+
+// Echoes the top retrieved answer (or context) so runs are reproducible without a model
+export class MockGenerator implements AnswerGenerator {
+  readonly name = 'mock';
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const top = request.contexts[0];
+    if (!top) return '';
+    if (top.answer === undefined || top.answer === null) return top.context;
+    return typeof top.answer === 'object' ? JSON.stringify(top.answer) : String(top.answer);
+  }
+}
+
+export function createAnswerGenerator(config: GenerationConfig): AnswerGenerator {
+  switch (config.provider) {
+    case 'ai-sdk':
+      return new AISDKGenerator(config);
+    case 'openai-compatible':
+      return new OpenAICompatibleGenerator(config);
+    case 'mock':
+      return new MockGenerator();
+    default:
+      throw new Error(`Unknown generator provider "${config.provider}"`);
+  }
+}
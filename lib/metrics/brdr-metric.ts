@@ -3,6 +3,8 @@
  * This metric is designed specifically for the BRDR dataset and schema
  */
 
+import { MetricCalculator, MetricConfigSchema, MetricContext } from './metric-calculator';
+
 export interface BRDRMetricConfig {
   weights: {
     semanticSimilarity: number;
@@ -53,7 +55,35 @@ export interface BRDRMetricResult {
   };
 }
 
-export class BRDRMetricCalculator {
+export class BRDRMetricCalculator implements MetricCalculator<BRDRMetricResult> {
+  readonly id = 'brdr';
+  readonly name = 'BRDR Banking Regulation Metric';
+  readonly description = 'Specialized for banking regulation documents';
+  readonly configSchema: MetricConfigSchema = {
+    weights: {
+      type: 'object',
+      description: 'Relative weight of each breakdown score',
+      properties: {
+        semanticSimilarity: { type: 'number', default: 0.20 },
+        documentRelevance: { type: 'number', default: 0.15 },
+        conceptAccuracy: { type: 'number', default: 0.15 },
+        topicAlignment: { type: 'number', default: 0.15 },
+        keywordPresence: { type: 'number', default: 0.10 },
+        regulatoryCompliance: { type: 'number', default: 0.15 },
+        contextualCoherence: { type: 'number', default: 0.10 }
+      }
+    }
+  };
+  readonly breakdownShape = {
+    semanticSimilarityScore: 'Semantic Similarity',
+    documentRelevanceScore: 'Document Relevance',
+    conceptAccuracyScore: 'Concept Accuracy',
+    topicAlignmentScore: 'Topic Alignment',
+    keywordPresenceScore: 'Keyword Presence',
+    regulatoryComplianceScore: 'Regulatory Compliance',
+    contextualCoherenceScore: 'Contextual Coherence'
+  };
+
   private config: BRDRMetricConfig;
   
   // BRDR-specific terminology and patterns
@@ -314,9 +344,9 @@ export class BRDRMetricCalculator {
     return (conceptSim * 0.4 + topicSim * 0.4 + keywordSim * 0.2);
   }
 
-  calculate(expectedText: string, actualText: string, metadata?: any): BRDRMetricResult {
-    const expectedAnalysis = this.extractBRDRFeatures(expectedText, metadata);
-    const actualAnalysis = this.extractBRDRFeatures(actualText, metadata);
+  calculate(expectedText: string, actualText: string, context?: MetricContext): BRDRMetricResult {
+    const expectedAnalysis = this.extractBRDRFeatures(expectedText, context?.metadata);
+    const actualAnalysis = this.extractBRDRFeatures(actualText, context?.metadata);
 
     // Calculate individual scores
     const semanticSimilarityScore = this.calculateSemanticSimilarity(expectedAnalysis, actualAnalysis);
@@ -0,0 +1,45 @@
+/**
+ * Common contract for answer-quality metrics so the testing framework can
+ * score retrievals without knowing which calculators exist.
+ */
+
+export interface MetricConfigField {
+  type: 'number' | 'string' | 'boolean' | 'object';
+  description?: string;
+  default?: any;
+  properties?: Record<string, MetricConfigField>;
+}
+
+export type MetricConfigSchema = Record<string, MetricConfigField>;
+
+// Maps each breakdown key to a human readable label
+export type MetricBreakdownShape = Record<string, string>;
+
+export interface MetricContext {
+  query?: string;
+  retrievedContext?: string;
+  row?: Record<string, any>;
+  metadata?: Record<string, any>;
+}
+
+export interface MetricResult {
+  overallScore: number;
+  breakdown: Record<string, number>;
+}
+
+export interface MetricCalculator<TResult extends MetricResult = MetricResult> {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly configSchema: MetricConfigSchema;
+  readonly breakdownShape: MetricBreakdownShape;
+  calculate(expected: any, actual: any, context?: MetricContext): TResult;
+}
+
+export interface MetricDescriptor {
+  id: string;
+  name: string;
+  description: string;
+  configSchema: MetricConfigSchema;
+  breakdownShape: MetricBreakdownShape;
+}
@@ -0,0 +1,53 @@
+import { MetricCalculator, MetricDescriptor } from './metric-calculator';
+import { SQLMetricCalculator } from './sql-metric';
+import { BRDRMetricCalculator } from './brdr-metric';
+
+export type MetricFactory = (config?: Record<string, any>) => MetricCalculator;
+
+export class MetricRegistry {
+  private factories = new Map<string, MetricFactory>();
+  private descriptors = new Map<string, MetricDescriptor>();
+
+  register(factory: MetricFactory): void {
+    // A default instance describes the metric (id, schema, breakdown)
+    const calculator = factory();
+
+    if (this.factories.has(calculator.id)) {
+      throw new Error(`Metric "${calculator.id}" is already registered`);
+    }
+
+    this.factories.set(calculator.id, factory);
+    this.descriptors.set(calculator.id, {
+      id: calculator.id,
+      name: calculator.name,
+      description: calculator.description,
+      configSchema: calculator.configSchema,
+      breakdownShape: calculator.breakdownShape
+    });
+  }
+
+  has(id: string): boolean {
+    return this.factories.has(id);
+  }
+
+  create(id: string, config?: Record<string, any>): MetricCalculator {
+    const factory = this.factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown metric "${id}". Registered metrics: ${this.ids().join(', ')}`);
+    }
+    return factory(config);
+  }
+
+  ids(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  list(): MetricDescriptor[] {
+    return Array.from(this.descriptors.values());
+  }
+}
+
+export const metricRegistry = new MetricRegistry();
+
+metricRegistry.register(config => new BRDRMetricCalculator(config));
+metricRegistry.register(config => new SQLMetricCalculator(config));
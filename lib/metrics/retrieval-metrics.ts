@@ -0,0 +1,82 @@
+/**
+ * Rank-aware retrieval metrics computed from the ordered candidate list,
+ * independent of how good the retrieved answer text is.
+ */
+
+export interface RetrievalMetricResult {
+  k: number;
+  hitAtK: number;
+  recallAtK: number;
+  reciprocalRank: number;
+  ndcgAtK: number;
+  firstRelevantRank: number | null; // 1-based rank, null when nothing relevant was retrieved
+  relevantRetrieved: number;
+  totalRelevant: number;
+}
+
+export interface RetrievalMetricSummary {
+  k: number;
+  relevanceMode: 'answer-equivalence' | 'relevance-mapping';
+  hitAtK: number;
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+  evaluatedQueries: number;
+  queriesWithoutRelevant: number;
+}
+
+export class RetrievalMetricCalculator {
+  /**
+   * @param relevance Binary relevance of each retrieved item, in rank order
+   * @param totalRelevant Number of relevant items in the whole corpus
+   * @param k Cut-off rank
+   */
+  calculate(relevance: boolean[], totalRelevant: number, k: number): RetrievalMetricResult {
+    const ranked = relevance.slice(0, k);
+    const relevantRetrieved = ranked.filter(Boolean).length;
+    const firstRelevantIndex = ranked.indexOf(true);
+
+    // Binary-gain DCG; the ideal ranking places every relevant item first
+    const dcg = ranked.reduce((sum, isRelevant, index) =>
+      sum + (isRelevant ? 1 / Math.log2(index + 2) : 0), 0
+    );
+    const idealHits = Math.min(totalRelevant, k);
+    let idealDcg = 0;
+    for (let i = 0; i < idealHits; i++) {
+      idealDcg += 1 / Math.log2(i + 2);
+    }
+
+    return {
+      k,
+      hitAtK: relevantRetrieved > 0 ? 1 : 0,
+      recallAtK: totalRelevant === 0 ? 0 : relevantRetrieved / totalRelevant,
+      reciprocalRank: firstRelevantIndex === -1 ? 0 : 1 / (firstRelevantIndex + 1),
+      ndcgAtK: idealDcg === 0 ? 0 : dcg / idealDcg,
+      firstRelevantRank: firstRelevantIndex === -1 ? null : firstRelevantIndex + 1,
+      relevantRetrieved,
+      totalRelevant
+    };
+  }
+
+  summarize(
+    results: RetrievalMetricResult[],
+    k: number,
+    relevanceMode: RetrievalMetricSummary['relevanceMode']
+  ): RetrievalMetricSummary {
+    // Queries with no relevant item in the corpus cannot be scored for retrieval
+    const scored = results.filter(r => r.totalRelevant > 0);
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+    return {
+      k,
+      relevanceMode,
+      hitAtK: average(scored.map(r => r.hitAtK)),
+      recallAtK: average(scored.map(r => r.recallAtK)),
+      mrr: average(scored.map(r => r.reciprocalRank)),
+      ndcgAtK: average(scored.map(r => r.ndcgAtK)),
+      evaluatedQueries: scored.length,
+      queriesWithoutRelevant: results.length - scored.length
+    };
+  }
+}
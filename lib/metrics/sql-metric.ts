@@ -1,4 +1,5 @@
 import { parse } from 'sql-parser-cst';
+import { MetricCalculator, MetricConfigSchema, MetricContext } from './metric-calculator';
 
 export interface SQLMetricConfig {
   weights: {
@@ -46,7 +47,33 @@ export interface SQLMetricResult {
   };
 }
 
-export class SQLMetricCalculator {
+export class SQLMetricCalculator implements MetricCalculator<SQLMetricResult> {
+  readonly id = 'sql';
+  readonly name = 'SQL Query Metric';
+  readonly description = 'Designed for SQL query comparison';
+  readonly configSchema: MetricConfigSchema = {
+    weights: {
+      type: 'object',
+      description: 'Relative weight of each breakdown score',
+      properties: {
+        tables: { type: 'number', default: 0.25 },
+        columns: { type: 'number', default: 0.25 },
+        joins: { type: 'number', default: 0.20 },
+        syntax: { type: 'number', default: 0.15 },
+        keywords: { type: 'number', default: 0.10 },
+        differences: { type: 'number', default: 0.05 }
+      }
+    }
+  };
+  readonly breakdownShape = {
+    tablesScore: 'Tables Presence',
+    columnsScore: 'Columns Presence',
+    joinsScore: 'Joins Presence',
+    syntaxScore: 'Syntax Validity',
+    keywordsScore: 'Keywords Presence',
+    differencesScore: 'Differences Penalty'
+  };
+
   private config: SQLMetricConfig;
 
   constructor(config?: Partial<SQLMetricConfig>) {
@@ -206,7 +233,7 @@ export class SQLMetricCalculator {
     return { score, missing, extra };
   }
 
-  calculate(expectedSQL: string, actualSQL: string): SQLMetricResult {
+  calculate(expectedSQL: string, actualSQL: string, context?: MetricContext): SQLMetricResult {
     const expectedAnalysis = this.analyzeSQL(expectedSQL);
     const actualAnalysis = this.analyzeSQL(actualSQL);
 
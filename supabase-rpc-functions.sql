@@ -14,13 +14,16 @@ BEGIN
 END;
 $$;
 
--- Function to get table information including columns and row count
+-- Function to get table information including columns, primary key and row count
+-- (dropped first because the return columns changed when is_primary_key was added)
+DROP FUNCTION IF EXISTS get_table_info(text);
 CREATE OR REPLACE FUNCTION get_table_info(table_name_param text)
 RETURNS TABLE(
   table_name text,
   column_name text,
   data_type text,
   is_nullable text,
+  is_primary_key boolean,
   row_count bigint
 )
 LANGUAGE plpgsql
@@ -39,6 +42,17 @@ BEGIN
     c.column_name::text,
     c.data_type::text,
     c.is_nullable::text,
+    EXISTS (
+      SELECT 1
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_name = tc.constraint_name
+       AND kcu.table_schema = tc.table_schema
+      WHERE tc.constraint_type = 'PRIMARY KEY'
+        AND tc.table_schema = 'public'
+        AND tc.table_name = table_name_param
+        AND kcu.column_name = c.column_name
+    ),
     row_count_val
   FROM information_schema.columns c
   WHERE c.table_schema = 'public'